@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import {
+  FileWarning,
+  Plus,
+  Copy,
+  Pencil,
+  Trash2,
+  Save,
+  X
+} from 'lucide-react';
+import {
+  ExportProfile,
+  ExportResult,
+  BUILT_IN_PROFILES,
+  loadCustomProfiles,
+  saveCustomProfiles,
+  saveSelectedProfileId,
+  createProfileId,
+  describeProfile,
+  formatBytes
+} from './exportProfiles';
+
+interface ExportProfilePanelProps {
+  profile: ExportProfile;
+  onProfileChange: (profile: ExportProfile) => void;
+  preview: ExportResult | null;
+  isPreviewing: boolean;
+  previewSources: { id: string; label: string }[];
+  previewSourceId: string;
+  onPreviewSourceChange: (id: string) => void;
+}
+
+const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-semibold text-slate-700';
+const labelClass = 'flex flex-col gap-1 text-xs font-bold text-slate-400 uppercase tracking-tighter';
+
+const ExportProfilePanel = ({ profile, onProfileChange, preview, isPreviewing, previewSources, previewSourceId, onPreviewSourceChange }: ExportProfilePanelProps) => {
+  const [customProfiles, setCustomProfiles] = useState<ExportProfile[]>(loadCustomProfiles);
+  const [draft, setDraft] = useState<ExportProfile | null>(null);
+
+  const allProfiles = [...BUILT_IN_PROFILES, ...customProfiles];
+
+  const selectProfile = (next: ExportProfile) => {
+    saveSelectedProfileId(next.id);
+    onProfileChange(next);
+  };
+
+  const updateCustomProfiles = (next: ExportProfile[]) => {
+    setCustomProfiles(next);
+    saveCustomProfiles(next);
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const saved = { ...draft, name: draft.name.trim(), builtIn: false };
+    const exists = customProfiles.some(p => p.id === saved.id);
+    updateCustomProfiles(exists ? customProfiles.map(p => (p.id === saved.id ? saved : p)) : [...customProfiles, saved]);
+    selectProfile(saved);
+    setDraft(null);
+  };
+
+  const deleteProfile = () => {
+    if (profile.builtIn) return;
+    updateCustomProfiles(customProfiles.filter(p => p.id !== profile.id));
+    selectProfile(BUILT_IN_PROFILES[0]);
+  };
+
+  const patchDraft = (patch: Partial<ExportProfile>) => setDraft(d => (d ? { ...d, ...patch } : d));
+
+  const optionalNumber = (value: string) => (value === '' ? undefined : Math.max(1, parseInt(value) || 1));
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
+      <div className="p-6 md:p-10 space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-3"><FileWarning className="text-indigo-600" /> Export Profile</h2>
+            <p className="text-slate-500 mt-1">Files are automatically optimized to match the target system's limits.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={profile.id} onChange={(e) => { const next = allProfiles.find(p => p.id === e.target.value); if (next) selectProfile(next); }} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-3 text-sm font-bold text-slate-700" aria-label="Export profile">
+              <optgroup label="Presets">
+                {BUILT_IN_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </optgroup>
+              {customProfiles.length > 0 && (
+                <optgroup label="My profiles">
+                  {customProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </optgroup>
+              )}
+            </select>
+            {profile.builtIn ? (
+              <button onClick={() => setDraft({ ...profile, id: createProfileId(), name: `${profile.name} (copy)`, builtIn: false })} title="Duplicate as my profile" className="p-3 text-slate-500 hover:text-indigo-600 transition-colors" aria-label="Duplicate profile"><Copy size={18} /></button>
+            ) : (
+              <>
+                <button onClick={() => setDraft({ ...profile })} title="Edit profile" className="p-3 text-slate-500 hover:text-indigo-600 transition-colors" aria-label="Edit profile"><Pencil size={18} /></button>
+                <button onClick={deleteProfile} title="Delete profile" className="p-3 text-slate-500 hover:text-red-600 transition-colors" aria-label="Delete profile"><Trash2 size={18} /></button>
+              </>
+            )}
+            <button onClick={() => setDraft({ ...BUILT_IN_PROFILES[0], id: createProfileId(), name: 'My profile', builtIn: false })} title="New profile" className="p-3 text-slate-500 hover:text-indigo-600 transition-colors" aria-label="New profile"><Plus size={18} /></button>
+          </div>
+        </div>
+
+        <p className="text-sm font-medium text-slate-400">{describeProfile(profile)}</p>
+
+        {draft && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 bg-slate-50 p-4 rounded-2xl border border-slate-100">
+            <label className={`${labelClass} col-span-2`}>Name
+              <input type="text" value={draft.name} onChange={(e) => patchDraft({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className={labelClass}>Max size (KB)
+              <input type="number" min={1} value={Math.round(draft.maxBytes / 1024)} onChange={(e) => patchDraft({ maxBytes: Math.max(1, parseInt(e.target.value) || 1) * 1024 })} className={inputClass} />
+            </label>
+            <label className={labelClass}>Format
+              <select value={draft.format} onChange={(e) => patchDraft({ format: e.target.value as ExportProfile['format'] })} className={inputClass}>
+                <option value="png">PNG</option>
+                <option value="jpg">JPG</option>
+                <option value="webp">WebP</option>
+              </select>
+            </label>
+            <label className={labelClass}>Width (px)
+              <input type="number" min={1} placeholder="Auto" value={draft.width ?? ''} onChange={(e) => patchDraft({ width: optionalNumber(e.target.value) })} className={inputClass} />
+            </label>
+            <label className={labelClass}>Height (px)
+              <input type="number" min={1} placeholder="Auto" value={draft.height ?? ''} onChange={(e) => patchDraft({ height: optionalNumber(e.target.value) })} className={inputClass} />
+            </label>
+            <label className={labelClass}>DPI
+              <input type="number" min={1} placeholder="None" value={draft.dpi ?? ''} onChange={(e) => patchDraft({ dpi: optionalNumber(e.target.value) })} className={inputClass} />
+            </label>
+            <label className={labelClass}>Crop margin (px)
+              <input type="number" min={0} placeholder="No crop" value={draft.cropMargin ?? ''} onChange={(e) => patchDraft({ cropMargin: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0) })} className={inputClass} />
+            </label>
+            <label className={labelClass}>Background
+              <select value={draft.background} onChange={(e) => patchDraft({ background: e.target.value as ExportProfile['background'] })} className={inputClass}>
+                <option value="transparent">Transparent</option>
+                <option value="white">White</option>
+              </select>
+            </label>
+            <label className={labelClass}>Color
+              <select value={draft.colorMode} onChange={(e) => patchDraft({ colorMode: e.target.value as ExportProfile['colorMode'] })} className={inputClass}>
+                <option value="color">Ink color</option>
+                <option value="grayscale">Grayscale</option>
+                <option value="bw">1-bit black & white</option>
+              </select>
+            </label>
+            <div className="col-span-2 flex items-end justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-slate-500 hover:text-slate-700 transition-colors"><X size={16} /> Cancel</button>
+              <button onClick={saveDraft} disabled={!draft.name.trim()} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-xl hover:bg-indigo-700 transition-colors disabled:opacity-50"><Save size={16} /> Save profile</button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 pt-6 border-t border-slate-100">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-tighter">Preview
+            <select value={previewSourceId} onChange={(e) => onPreviewSourceChange(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-sm font-semibold text-slate-700 normal-case tracking-normal">
+              {previewSources.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </label>
+          <div className="text-sm font-semibold">
+            {isPreviewing ? (
+              <span className="text-slate-400">Calculating final size...</span>
+            ) : preview ? (
+              <span className={preview.withinLimit ? 'text-emerald-600' : 'text-red-600'}>
+                {formatBytes(preview.bytes)} · {preview.width}x{preview.height}px · {preview.mimeType.split('/')[1].toUpperCase()}
+                {preview.withinLimit ? ' · within limit' : ` · exceeds ${formatBytes(profile.maxBytes)}`}
+              </span>
+            ) : (
+              <span className="text-slate-400">Nothing to export yet</span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportProfilePanel;
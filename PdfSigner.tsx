@@ -0,0 +1,409 @@
+/// <reference types="vite/client" />
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  FileText,
+  Upload,
+  Calendar,
+  FileDown,
+  X,
+  PenTool
+} from 'lucide-react';
+import type { PageViewport } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { RenderCanvas } from './canvasFactory';
+
+export interface SignatureSource {
+  id: string;
+  label: string;
+  // Resolves to a transparent canvas trimmed to the ink, or null when there is nothing to place
+  render: () => Promise<RenderCanvas | null>;
+}
+
+/**
+ * A finished signed PDF, handed to the app to download (and to issue a receipt for)
+ */
+export interface SignedPdf {
+  fileName: string;
+  data: Uint8Array;
+  width: number; // first page, PDF points
+  height: number;
+  sourceId: string | null; // signature source of the first placed signature field
+}
+
+interface PdfSignerProps {
+  sources: SignatureSource[];
+  defaultInitials: string;
+  renderInitials: (text: string) => Promise<RenderCanvas | null>;
+  onSave: (pdf: SignedPdf) => Promise<void>;
+}
+
+interface RenderedPage {
+  url: string; // object URL of the rendered preview
+  width: number; // PDF points at scale 1, as displayed (rotation applied)
+  height: number;
+}
+
+interface PlacedField {
+  id: string;
+  kind: 'signature' | 'initials' | 'date';
+  page: number;
+  // Top-left box in the scale-1 viewport of the page
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  image: string; // PNG data URL that gets flattened into the page
+  sourceId?: string; // signature fields: the source the image was rendered from
+}
+
+interface DragState {
+  fieldId: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: PlacedField;
+  pointsPerPixel: number;
+}
+
+const PREVIEW_WIDTH = 800;
+const MIN_FIELD_WIDTH = 20;
+const KEYBOARD_STEP = 5; // PDF points per arrow key press
+
+const moveField = (field: PlacedField, page: RenderedPage, dx: number, dy: number): PlacedField => ({
+  ...field,
+  x: Math.min(Math.max(0, field.x + dx), page.width - field.width),
+  y: Math.min(Math.max(0, field.y + dy), page.height - field.height)
+});
+
+/**
+ * Grows or shrinks a field from its top left corner, keeping the aspect ratio of the placed image
+ */
+const resizeField = (field: PlacedField, page: RenderedPage, dx: number): PlacedField => {
+  const aspect = field.height / field.width;
+  const maxWidth = Math.min(page.width - field.x, (page.height - field.y) / aspect);
+  const width = Math.min(Math.max(MIN_FIELD_WIDTH, field.width + dx), maxWidth);
+  return { ...field, width, height: width * aspect };
+};
+
+const createFieldId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Draws a short line of plain text (used for date fields) onto a trimmed transparent canvas
+ */
+const renderTextLabel = (text: string, color: string) => {
+  const fontSize = 96;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = `500 ${fontSize}px Inter, Helvetica, Arial, sans-serif`;
+  const width = Math.ceil(ctx.measureText(text).width) + 16;
+  canvas.width = width;
+  canvas.height = Math.ceil(fontSize * 1.3);
+  ctx.font = `500 ${fontSize}px Inter, Helvetica, Arial, sans-serif`;
+  ctx.fillStyle = color;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, 8, canvas.height / 2);
+  return canvas;
+};
+
+const PdfSigner = ({ sources, defaultInitials, renderInitials, onSave }: PdfSignerProps) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [pages, setPages] = useState<RenderedPage[]>([]);
+  const [fields, setFields] = useState<PlacedField[]>([]);
+  const [sourceId, setSourceId] = useState(sources[0]?.id ?? '');
+  const [targetPage, setTargetPage] = useState(0);
+  const [initials, setInitials] = useState('');
+  const [dateText, setDateText] = useState(() => new Date().toLocaleDateString());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pdfBytes = useRef<Uint8Array | null>(null);
+  const viewports = useRef<PageViewport[]>([]);
+  const drag = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    if (!sources.some(s => s.id === sourceId) && sources.length > 0) setSourceId(sources[0].id);
+  }, [sources, sourceId]);
+
+  // Release the page previews when they are replaced or the component goes away
+  useEffect(() => () => pages.forEach(p => URL.revokeObjectURL(p.url)), [pages]);
+
+  const loadPdf = async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const pdfjs = await import('pdfjs-dist');
+      pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      // pdf.js transfers its buffer to the worker, so it gets a copy
+      const doc = await pdfjs.getDocument({ data: bytes.slice() }).promise;
+      const rendered: RenderedPage[] = [];
+      const pageViewports: PageViewport[] = [];
+      const dpr = window.devicePixelRatio || 1;
+      for (let i = 1; i <= doc.numPages; i++) {
+        const page = await doc.getPage(i);
+        const base = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: (PREVIEW_WIDTH / base.width) * dpr });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        await page.render({ canvas, canvasContext: canvas.getContext('2d')!, viewport }).promise;
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+        if (!blob) throw new Error('Could not render page preview');
+        rendered.push({ url: URL.createObjectURL(blob), width: base.width, height: base.height });
+        pageViewports.push(base);
+      }
+      await doc.destroy();
+      pdfBytes.current = bytes;
+      viewports.current = pageViewports;
+      setPages(rendered);
+      setFields([]);
+      setTargetPage(0);
+      setFileName(file.name);
+    } catch (e) {
+      console.error("PDF load failed:", e);
+      setError('This PDF could not be opened. It may be damaged or password protected.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const placeField = (kind: PlacedField['kind'], canvas: RenderCanvas, fieldSourceId?: string) => {
+    const page = pages[targetPage];
+    if (!page) return;
+    const share = kind === 'signature' ? 0.3 : kind === 'initials' ? 0.1 : 0.2;
+    const width = page.width * share;
+    const height = width * (canvas.height / canvas.width);
+    setFields(prev => [...prev, {
+      id: createFieldId(),
+      kind,
+      page: targetPage,
+      x: (page.width - width) / 2,
+      y: (page.height - height) / 2,
+      width,
+      height,
+      image: canvas.toDataURL('image/png'),
+      sourceId: fieldSourceId
+    }]);
+  };
+
+  const addSignature = async () => {
+    const source = sources.find(s => s.id === sourceId);
+    if (!source) return;
+    let canvas: RenderCanvas | null;
+    try {
+      canvas = await source.render();
+    } catch (e) {
+      console.error("Signature render failed:", e);
+      setError('The signature could not be rendered. Its font may not be available offline.');
+      return;
+    }
+    if (!canvas) {
+      setError('Draw or type a signature first, then place it on the document.');
+      return;
+    }
+    setError(null);
+    placeField('signature', canvas, source.id);
+  };
+
+  const addInitials = async () => {
+    const text = (initials || defaultInitials).trim();
+    if (!text) {
+      setError('Enter your initials first.');
+      return;
+    }
+    let canvas: RenderCanvas | null;
+    try {
+      canvas = await renderInitials(text);
+    } catch (e) {
+      console.error("Initials render failed:", e);
+      setError('The initials could not be rendered. Their font may not be available offline.');
+      return;
+    }
+    if (!canvas) return;
+    setError(null);
+    placeField('initials', canvas);
+  };
+
+  const addDate = () => {
+    if (!dateText.trim()) return;
+    setError(null);
+    placeField('date', renderTextLabel(dateText.trim(), '#000000'));
+  };
+
+  const removeField = (id: string) => setFields(prev => prev.filter(f => f.id !== id));
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, field: PlacedField, mode: DragState['mode']) => {
+    e.stopPropagation();
+    const pageElement = (e.currentTarget as HTMLElement).closest('[data-pdf-page]') as HTMLElement | null;
+    if (!pageElement) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = {
+      fieldId: field.id,
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      origin: field,
+      pointsPerPixel: pages[field.page].width / pageElement.getBoundingClientRect().width
+    };
+  };
+
+  const moveDrag = (e: React.PointerEvent<HTMLElement>) => {
+    const state = drag.current;
+    if (!state) return;
+    const { origin } = state;
+    const page = pages[origin.page];
+    const dx = (e.clientX - state.startX) * state.pointsPerPixel;
+    const dy = (e.clientY - state.startY) * state.pointsPerPixel;
+    const next = state.mode === 'move' ? moveField(origin, page, dx, dy) : resizeField(origin, page, dx);
+    setFields(prev => prev.map(f => (f.id === next.id ? next : f)));
+  };
+
+  /**
+   * Arrow keys move the focused field, Shift + arrow keys resize it (right and down grow it)
+   */
+  const nudgeField = (e: React.KeyboardEvent<HTMLElement>, field: PlacedField) => {
+    const direction = ({ ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] } as Record<string, number[]>)[e.key];
+    if (!direction || e.target !== e.currentTarget) return;
+    e.preventDefault();
+    const page = pages[field.page];
+    const [dx, dy] = direction.map(d => d * KEYBOARD_STEP);
+    const next = e.shiftKey ? resizeField(field, page, dx + dy) : moveField(field, page, dx, dy);
+    setFields(prev => prev.map(f => (f.id === next.id ? next : f)));
+  };
+
+  const endDrag = () => {
+    drag.current = null;
+  };
+
+  const downloadSignedPdf = async () => {
+    if (!pdfBytes.current || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const { PDFDocument, degrees } = await import('pdf-lib');
+      const doc = await PDFDocument.load(pdfBytes.current);
+      for (const field of fields) {
+        const viewport = viewports.current[field.page];
+        const image = await doc.embedPng(field.image);
+        // Anchor at the box's displayed bottom-left and undo the page rotation so the image stays upright
+        const [x, y] = viewport.convertToPdfPoint(field.x, field.y + field.height);
+        doc.getPage(field.page).drawImage(image, {
+          x,
+          y,
+          width: field.width,
+          height: field.height,
+          rotate: degrees(viewport.rotation)
+        });
+      }
+      const bytes = await doc.save();
+      const firstPage = doc.getPage(0).getSize();
+      await onSave({
+        fileName: `signed-${fileName ?? 'document.pdf'}`,
+        data: bytes,
+        width: Math.round(firstPage.width),
+        height: Math.round(firstPage.height),
+        sourceId: fields.find(f => f.kind === 'signature')?.sourceId ?? null
+      });
+    } catch (e) {
+      console.error("PDF export failed:", e);
+      setError('The signed PDF could not be created. Encrypted documents are not supported.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
+      <div className="p-6 md:p-10 space-y-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+          <div>
+            <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-3"><FileText className="text-indigo-600" /> Sign a PDF</h2>
+            <p className="text-slate-500 mt-1">Place your signature on a document. Files never leave your browser.</p>
+          </div>
+          <label className="flex items-center justify-center gap-2 px-6 py-4 bg-indigo-50 text-indigo-700 rounded-xl font-bold hover:bg-indigo-100 transition-all border border-indigo-100 shadow-sm cursor-pointer focus-within:ring-2 focus-within:ring-indigo-400">
+            <Upload size={20} /> {isLoading ? 'Loading...' : fileName ? 'Replace PDF' : 'Upload PDF'}
+            <input type="file" accept="application/pdf" className="sr-only" disabled={isLoading} onChange={(e) => { const file = e.target.files?.[0]; if (file) loadPdf(file); e.target.value = ''; }} />
+          </label>
+        </div>
+
+        {error && <p className="text-sm font-semibold text-red-600">{error}</p>}
+
+        {pages.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-4 bg-slate-50 p-3 rounded-2xl border border-slate-100">
+              <div className="flex items-center gap-2 pr-4 border-r border-slate-200">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Page</span>
+                <select value={targetPage} onChange={(e) => setTargetPage(parseInt(e.target.value))} aria-label="Target page" className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-semibold text-slate-700">
+                  {pages.map((_, idx) => <option key={idx} value={idx}>{idx + 1} of {pages.length}</option>)}
+                </select>
+              </div>
+              <div className="flex items-center gap-2 pr-4 border-r border-slate-200">
+                <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} aria-label="Signature to place" className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-semibold text-slate-700">
+                  {sources.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+                <button onClick={addSignature} className="flex items-center gap-2 px-3 py-2 text-sm font-bold text-slate-600 hover:text-indigo-600 transition-colors"><PenTool size={16} /> Signature</button>
+              </div>
+              <div className="flex items-center gap-2 pr-4 border-r border-slate-200">
+                <input type="text" value={initials} onChange={(e) => setInitials(e.target.value)} placeholder={defaultInitials || 'JD'} maxLength={6} className="w-16 bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-semibold text-slate-700" aria-label="Initials" />
+                <button onClick={addInitials} className="px-3 py-2 text-sm font-bold text-slate-600 hover:text-indigo-600 transition-colors">Initials</button>
+              </div>
+              <div className="flex items-center gap-2">
+                <input type="text" value={dateText} onChange={(e) => setDateText(e.target.value)} className="w-32 bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-semibold text-slate-700" aria-label="Date" />
+                <button onClick={addDate} className="flex items-center gap-2 px-3 py-2 text-sm font-bold text-slate-600 hover:text-indigo-600 transition-colors"><Calendar size={16} /> Date</button>
+              </div>
+            </div>
+
+            <div className="space-y-6 max-h-[900px] overflow-y-auto p-4 bg-slate-100 rounded-3xl shadow-inner">
+              {pages.map((page, idx) => (
+                <div key={idx} data-pdf-page className="relative mx-auto bg-white shadow-xl select-none" style={{ maxWidth: PREVIEW_WIDTH, aspectRatio: `${page.width} / ${page.height}` }}>
+                  <img src={page.url} alt={`Page ${idx + 1}`} className="w-full h-full" draggable={false} />
+                  {fields.filter(f => f.page === idx).map(field => (
+                    <div
+                      key={field.id}
+                      onPointerDown={(e) => startDrag(e, field, 'move')}
+                      onPointerMove={moveDrag}
+                      onPointerUp={endDrag}
+                      onPointerCancel={endDrag}
+                      onKeyDown={(e) => nudgeField(e, field)}
+                      tabIndex={0}
+                      role="group"
+                      aria-label={`${field.kind} on page ${idx + 1}. Arrow keys move it, Shift and arrow keys resize it.`}
+                      className="absolute group border-2 border-dashed border-indigo-400/70 hover:border-indigo-600 focus:outline-none focus-visible:border-solid focus-visible:border-indigo-600 cursor-move touch-none"
+                      style={{
+                        left: `${(field.x / page.width) * 100}%`,
+                        top: `${(field.y / page.height) * 100}%`,
+                        width: `${(field.width / page.width) * 100}%`,
+                        height: `${(field.height / page.height) * 100}%`
+                      }}
+                    >
+                      <img src={field.image} alt={field.kind} className="w-full h-full pointer-events-none" draggable={false} />
+                      <button onPointerDown={(e) => e.stopPropagation()} onClick={() => removeField(field.id)} className="absolute -top-3 -right-3 w-6 h-6 rounded-full bg-white border border-slate-200 text-slate-500 hover:text-red-600 flex items-center justify-center shadow" aria-label={`Remove ${field.kind}`}><X size={12} /></button>
+                      <div
+                        onPointerDown={(e) => startDrag(e, field, 'resize')}
+                        onPointerMove={moveDrag}
+                        onPointerUp={endDrag}
+                        onPointerCancel={endDrag}
+                        className="absolute -bottom-2 -right-2 w-4 h-4 rounded-sm bg-indigo-600 border-2 border-white cursor-nwse-resize touch-none"
+                        aria-hidden
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col md:flex-row items-center justify-between gap-6 pt-4">
+              <span className="text-sm font-medium text-slate-400">{fields.length} field{fields.length === 1 ? '' : 's'} placed. Drag to move, use the corner to resize. With the keyboard, focus a field and use the arrow keys; hold Shift to resize.</span>
+              <button onClick={downloadSignedPdf} disabled={isSaving || fields.length === 0} className="flex items-center justify-center gap-2 px-6 py-4 btn-gradient-indigo text-white rounded-xl font-bold transition-all shadow-xl shadow-indigo-200 disabled:opacity-50">
+                <FileDown size={20} /> {isSaving ? 'Preparing...' : 'Download Signed PDF'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PdfSigner;
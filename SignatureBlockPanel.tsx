@@ -0,0 +1,73 @@
+import React from 'react';
+import { LayoutTemplate, CalendarDays } from 'lucide-react';
+import {
+  SignatureBlockOptions,
+  DATE_FORMATS,
+  BLOCK_LAYOUTS,
+  DateFormatId,
+  BlockLayout,
+  formatSigningDate,
+  hasBlockText
+} from './signatureBlock';
+
+interface SignatureBlockPanelProps {
+  options: SignatureBlockOptions;
+  onChange: (options: SignatureBlockOptions) => void;
+  previewUrl: string | null;
+  previewLabel: string;
+}
+
+const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-semibold text-slate-700';
+const labelClass = 'flex flex-col gap-1 text-xs font-bold text-slate-400 uppercase tracking-tighter';
+
+const SignatureBlockPanel = ({ options, onChange, previewUrl, previewLabel }: SignatureBlockPanelProps) => {
+  const patch = (next: Partial<SignatureBlockOptions>) => onChange({ ...options, ...next });
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
+      <div className="p-6 md:p-10 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-3"><LayoutTemplate className="text-indigo-600" /> Title & Date</h2>
+          <p className="text-slate-500 mt-1">Add a title line and the signing date to drawn, typed and uploaded image exports.</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 bg-slate-50 p-4 rounded-2xl border border-slate-100">
+          <label className={`${labelClass} md:col-span-2`}>Title / company
+            <input type="text" value={options.title} onChange={(e) => patch({ title: e.target.value })} placeholder="e.g. Director, Acme Ltd." className={`${inputClass} normal-case tracking-normal`} />
+          </label>
+          <label className={labelClass}>Layout
+            <select value={options.layout} onChange={(e) => patch({ layout: e.target.value as BlockLayout })} className={inputClass}>
+              {BLOCK_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+          </label>
+          <div className={labelClass}>
+            <label className="flex items-center gap-2 cursor-pointer select-none">
+              <input type="checkbox" checked={options.showDate} onChange={(e) => patch({ showDate: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+              <CalendarDays size={14} /> Date
+            </label>
+            <select value={options.dateFormat} onChange={(e) => patch({ dateFormat: e.target.value as DateFormatId })} disabled={!options.showDate} className={`${inputClass} disabled:opacity-50`} aria-label="Date format">
+              {DATE_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {hasBlockText(options) && (
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex-1 min-h-[120px] p-4 bg-white rounded-2xl border border-slate-200 shadow-inner flex items-center justify-center">
+              {previewUrl ? (
+                <img src={previewUrl} alt="Export preview with title and date" className="max-h-48 max-w-full object-contain" />
+              ) : (
+                <span className="text-sm font-semibold text-slate-400">Nothing to preview yet</span>
+              )}
+            </div>
+            <p className="text-xs font-semibold text-slate-400 md:w-48">
+              Previewing "{previewLabel}"{options.showDate ? `, dated ${formatSigningDate(new Date(), options.dateFormat)}` : ''}. Change the source in Export Profile.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SignatureBlockPanel;
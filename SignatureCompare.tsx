@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { GitCompare, RefreshCw } from 'lucide-react';
+import { Stroke } from './types';
+import { LibraryEntry, listEntries } from './signatureLibrary';
+import { compareSignatures } from './signatureCompare';
+
+interface SignatureCompareProps {
+  strokes: Stroke[];
+  libraryVersion: number; // changes whenever the library is edited, so the references reload
+}
+
+const VERDICT_TEXT = {
+  consistent: 'Consistent with the reference',
+  similar: 'Similar, with noticeable differences',
+  different: 'Does not match the reference'
+};
+
+const scoreColor = (score: number) => (score >= 75 ? 'text-emerald-600' : score >= 50 ? 'text-amber-600' : 'text-red-600');
+const barColor = (score: number) => (score >= 75 ? 'bg-emerald-500' : score >= 50 ? 'bg-amber-500' : 'bg-red-500');
+
+const SignatureCompare = ({ strokes, libraryVersion }: SignatureCompareProps) => {
+  const [references, setReferences] = useState<LibraryEntry[]>([]);
+  const [referenceId, setReferenceId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only drawn entries carry the stroke data needed for comparison
+  const loadReferences = () => {
+    listEntries()
+      .then(list => {
+        const drawn = list.filter(e => e.method === 'drawn' && e.strokes && e.strokes.length > 0);
+        setReferences(drawn);
+        setReferenceId(id => (id && drawn.some(e => e.id === id) ? id : (drawn.find(e => e.isDefault) ?? drawn[0])?.id ?? null));
+        setError(null);
+      })
+      .catch(() => setError('Saved signatures could not be loaded, so there is nothing to compare with.'));
+  };
+
+  useEffect(loadReferences, [libraryVersion]);
+
+  const reference = references.find(e => e.id === referenceId) ?? null;
+  const comparison = useMemo(
+    () => (reference?.strokes ? compareSignatures(strokes, reference.strokes) : null),
+    [strokes, reference]
+  );
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
+      <div className="p-6 md:p-10 space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-3"><GitCompare className="text-indigo-600" /> Compare</h2>
+            <p className="text-slate-500 mt-1">Check how closely the drawing on the pad matches a saved reference. Runs entirely on this device.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={referenceId ?? ''} onChange={(e) => setReferenceId(e.target.value || null)} disabled={references.length === 0} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-3 text-sm font-bold text-slate-700" aria-label="Reference signature">
+              {references.length === 0 && <option value="">No drawn signatures saved</option>}
+              {references.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+            </select>
+            <button onClick={loadReferences} title="Reload saved signatures" className="p-3 text-slate-500 hover:text-indigo-600 transition-colors" aria-label="Reload saved signatures"><RefreshCw size={18} /></button>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="text-sm font-semibold text-red-600">{error}</p>
+        ) : references.length === 0 ? (
+          <p className="text-sm font-semibold text-slate-400">Save a drawn signature in My Signatures to use it as a reference.</p>
+        ) : !comparison ? (
+          <p className="text-sm font-semibold text-slate-400">Draw on the pad to compare it with "{reference?.name}".</p>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-6">
+            <div className="flex flex-col items-center justify-center gap-2 md:w-48 shrink-0">
+              {reference && <img src={reference.thumbnail} alt={reference.name} className="max-h-16 max-w-full object-contain" />}
+              <div className={`text-4xl font-extrabold ${scoreColor(comparison.score)}`}>{comparison.score}<span className="text-base font-bold text-slate-400">/100</span></div>
+              <div className={`text-xs font-bold uppercase tracking-widest text-center ${scoreColor(comparison.score)}`}>{VERDICT_TEXT[comparison.verdict]}</div>
+            </div>
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+              {comparison.features.map(f => (
+                <div key={f.feature} className="bg-slate-50 rounded-xl border border-slate-100 p-4 space-y-2">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{f.label}</span>
+                    <span className="text-sm font-bold text-slate-700">{f.score}</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${barColor(f.score)}`} style={{ width: `${f.score}%` }} />
+                  </div>
+                  <p className="text-xs text-slate-500">{f.detail}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SignatureCompare;
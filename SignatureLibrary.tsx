@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Library,
+  Star,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  FolderOpen,
+  Upload,
+  Download,
+  Save
+} from 'lucide-react';
+import {
+  LibraryEntry,
+  LibraryKind,
+  LibraryMethod,
+  listEntries,
+  putEntry,
+  deleteEntry,
+  renameEntry,
+  setDefaultEntry,
+  exportLibrary,
+  importLibrary,
+  createEntryId
+} from './signatureLibrary';
+
+export type CapturedEntry = Pick<LibraryEntry, 'kind' | 'method' | 'strokes' | 'typed' | 'color' | 'penWidth' | 'thumbnail'>;
+
+interface SignatureLibraryProps {
+  // Snapshot of the pad or typed settings, or null when there is nothing to save
+  captureEntry: (kind: LibraryKind, method: LibraryMethod) => Promise<CapturedEntry | null>;
+  onApply: (entry: LibraryEntry) => void;
+  onChange?: () => void; // after an entry is saved, renamed, deleted, made default or imported
+}
+
+const KIND_LABELS: Record<LibraryKind, string> = {
+  signature: 'Signatures',
+  initials: 'Initials'
+};
+
+const SignatureLibrary = ({ captureEntry, onApply, onChange }: SignatureLibraryProps) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<LibraryKind>('signature');
+  const [method, setMethod] = useState<LibraryMethod>('drawn');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  const appliedDefault = useRef(false);
+  const latestOnApply = useRef(onApply);
+  latestOnApply.current = onApply;
+
+  // Reloads the list after a change and tells the parent about it
+  const refresh = async () => {
+    onChange?.();
+    try {
+      setEntries(await listEntries());
+    } catch (e) {
+      console.error("Library unavailable:", e);
+      setIsUnavailable(true);
+    }
+  };
+
+  // Restore the default signature once per visit
+  useEffect(() => {
+    listEntries()
+      .then(list => {
+        setEntries(list);
+        const defaultEntry = list.find(e => e.kind === 'signature' && e.isDefault);
+        if (defaultEntry && !appliedDefault.current) {
+          appliedDefault.current = true;
+          latestOnApply.current(defaultEntry);
+        }
+      })
+      .catch(e => {
+        console.error("Library unavailable:", e);
+        setIsUnavailable(true);
+      });
+  }, []);
+
+  const saveCurrent = async () => {
+    try {
+      const captured = await captureEntry(kind, method);
+      if (!captured) {
+        setMessage(method === 'drawn' ? 'Draw something on the pad first.' : 'Type your name first.');
+        return;
+      }
+      const now = new Date().toISOString();
+      const isFirstOfKind = !entries.some(e => e.kind === kind);
+      await putEntry({
+        ...captured,
+        id: createEntryId(),
+        name: name.trim() || `${kind === 'initials' ? 'Initials' : 'Signature'} ${entries.filter(e => e.kind === kind).length + 1}`,
+        isDefault: isFirstOfKind,
+        createdAt: now,
+        updatedAt: now
+      });
+      setName('');
+      setMessage('Saved to your library.');
+      await refresh();
+    } catch (e) {
+      console.error("Library save failed:", e);
+      setMessage('Could not save to your library. Check that the font is available and try again.');
+    }
+  };
+
+  const confirmRename = async () => {
+    try {
+      if (renamingId && renameValue.trim()) {
+        await renameEntry(renamingId, renameValue.trim());
+        await refresh();
+      }
+    } catch (e) {
+      console.error("Library rename failed:", e);
+      setMessage('Could not rename that item.');
+    }
+    setRenamingId(null);
+  };
+
+  const removeEntry = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.name}" from your library?`)) return;
+    try {
+      await deleteEntry(entry.id);
+      await refresh();
+    } catch (e) {
+      console.error("Library delete failed:", e);
+      setMessage('Could not delete that item.');
+    }
+  };
+
+  const makeDefault = async (entry: LibraryEntry) => {
+    try {
+      await setDefaultEntry(entry.id);
+      await refresh();
+    } catch (e) {
+      console.error("Library default failed:", e);
+      setMessage('Could not change the default.');
+    }
+  };
+
+  const downloadLibrary = async () => {
+    try {
+      const json = await exportLibrary();
+      const link = document.createElement('a');
+      link.download = 'signease-library.json';
+      link.href = `data:application/json;charset=utf-8,${encodeURIComponent(json)}`;
+      link.click();
+    } catch (e) {
+      console.error("Library export failed:", e);
+      setMessage('Could not export your library.');
+    }
+  };
+
+  const uploadLibrary = async (file: File) => {
+    try {
+      const count = await importLibrary(await file.text());
+      setMessage(`Imported ${count} item${count === 1 ? '' : 's'}.`);
+      await refresh();
+    } catch (e) {
+      console.error("Library import failed:", e);
+      setMessage('That file is not a SignEase library export.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
+      <div className="p-6 md:p-10 space-y-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+          <div>
+            <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-3"><Library className="text-indigo-600" /> My Signatures</h2>
+            <p className="text-slate-500 mt-1">Saved on this device only. Export the library to move it elsewhere.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-slate-600 hover:text-indigo-600 transition-colors cursor-pointer focus-within:ring-2 focus-within:ring-indigo-400">
+              <Upload size={16} /> Import
+              <input type="file" accept="application/json,.json" className="sr-only" onChange={(e) => { const file = e.target.files?.[0]; if (file) uploadLibrary(file); e.target.value = ''; }} />
+            </label>
+            <button onClick={downloadLibrary} disabled={entries.length === 0} className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-slate-600 hover:text-indigo-600 transition-colors disabled:opacity-30"><Download size={16} /> Export</button>
+          </div>
+        </div>
+
+        {isUnavailable ? (
+          <p className="text-sm font-semibold text-red-600">Local storage is not available in this browser, so the library cannot be used.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 bg-slate-50 p-3 rounded-2xl border border-slate-100">
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (optional)" className="flex-1 min-w-[160px] bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-semibold text-slate-700" aria-label="Library entry name" />
+              <select value={kind} onChange={(e) => setKind(e.target.value as LibraryKind)} className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-sm font-semibold text-slate-700" aria-label="Save as">
+                <option value="signature">Signature</option>
+                <option value="initials">Initials</option>
+              </select>
+              <select value={method} onChange={(e) => setMethod(e.target.value as LibraryMethod)} className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-sm font-semibold text-slate-700" aria-label="Source">
+                <option value="drawn">From drawing pad</option>
+                <option value="typed">From typed name</option>
+              </select>
+              <button onClick={saveCurrent} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-xl hover:bg-indigo-700 transition-colors"><Save size={16} /> Save current</button>
+            </div>
+
+            {message && <p className="text-sm font-semibold text-slate-500">{message}</p>}
+
+            {(['signature', 'initials'] as LibraryKind[]).map(group => {
+              const items = entries.filter(e => e.kind === group);
+              if (items.length === 0) return null;
+              return (
+                <div key={group} className="space-y-4">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">{KIND_LABELS[group]}</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {items.map(entry => (
+                      <div key={entry.id} className={`rounded-2xl border p-4 space-y-3 ${entry.isDefault ? 'border-indigo-300 bg-indigo-50/40' : 'border-slate-100 bg-slate-50'}`}>
+                        <div className="h-20 bg-white rounded-xl border border-slate-100 flex items-center justify-center overflow-hidden">
+                          <img src={entry.thumbnail} alt={entry.name} className="max-h-full max-w-full object-contain" />
+                        </div>
+                        {renamingId === entry.id ? (
+                          <div className="flex items-center gap-1">
+                            <input autoFocus type="text" value={renameValue} onChange={(e) => setRenameValue(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') confirmRename(); if (e.key === 'Escape') setRenamingId(null); }} className="flex-1 bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm font-semibold text-slate-700" aria-label="New name" />
+                            <button onClick={confirmRename} className="p-1 text-slate-500 hover:text-indigo-600" aria-label="Save name"><Check size={16} /></button>
+                            <button onClick={() => setRenamingId(null)} className="p-1 text-slate-500 hover:text-slate-700" aria-label="Cancel rename"><X size={16} /></button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                              <div className="text-sm font-bold text-slate-800 truncate">{entry.name}</div>
+                              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                                {entry.method === 'typed' ? `Typed · ${entry.typed?.fontName}` : 'Drawn'}{entry.isDefault ? ' · Default' : ''}
+                              </div>
+                            </div>
+                            <div className="flex items-center shrink-0">
+                              <button onClick={() => onApply(entry)} title="Load" className="p-2 text-slate-500 hover:text-indigo-600 transition-colors" aria-label={`Load ${entry.name}`}><FolderOpen size={16} /></button>
+                              <button onClick={() => makeDefault(entry)} title="Set as default" className={`p-2 transition-colors ${entry.isDefault ? 'text-amber-500' : 'text-slate-500 hover:text-amber-500'}`} aria-label={`Set ${entry.name} as default`} aria-pressed={entry.isDefault}><Star size={16} fill={entry.isDefault ? 'currentColor' : 'none'} /></button>
+                              <button onClick={() => { setRenamingId(entry.id); setRenameValue(entry.name); }} title="Rename" className="p-2 text-slate-500 hover:text-indigo-600 transition-colors" aria-label={`Rename ${entry.name}`}><Pencil size={16} /></button>
+                              <button onClick={() => removeEntry(entry)} title="Delete" className="p-2 text-slate-500 hover:text-red-600 transition-colors" aria-label={`Delete ${entry.name}`}><Trash2 size={16} /></button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SignatureLibrary;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ReceiptText,
+  FileJson,
+  Printer,
+  ShieldCheck,
+  ShieldX,
+  ImageUp
+} from 'lucide-react';
+import {
+  SigningReceipt,
+  ReceiptCheck,
+  parseSigningReceipt,
+  verifySigningReceipt,
+  receiptToHtml
+} from './signingReceipt';
+
+export interface IssuedReceipt {
+  receipt: SigningReceipt;
+  imageDataUrl?: string; // shown on the printed receipt; absent for PDFs
+}
+
+interface SigningReceiptsProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  latest: IssuedReceipt | null;
+}
+
+const receiptFileName = (receipt: SigningReceipt) => `${receipt.file.name.replace(/\.[^.]+$/, '')}-receipt`;
+
+const SigningReceipts = ({ enabled, onEnabledChange, latest }: SigningReceiptsProps) => {
+  const [image, setImage] = useState<File | null>(null);
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [check, setCheck] = useState<ReceiptCheck | null>(null);
+  const [checkedReceipt, setCheckedReceipt] = useState<SigningReceipt | null>(null);
+
+  // Verify as soon as both files are chosen
+  useEffect(() => {
+    setCheck(null);
+    setCheckedReceipt(null);
+    if (!image || !receiptFile) return;
+    let cancelled = false;
+    (async () => {
+      const receipt = parseSigningReceipt(await receiptFile.text());
+      const result: ReceiptCheck = receipt
+        ? await verifySigningReceipt(image, receipt)
+        : { status: 'invalid', reason: 'That file is not a SignEase signing receipt.' };
+      if (cancelled) return;
+      setCheck(result);
+      setCheckedReceipt(receipt);
+    })().catch(e => {
+      console.error("Receipt verification failed:", e);
+      if (!cancelled) setCheck({ status: 'invalid', reason: 'The files could not be read.' });
+    });
+    return () => { cancelled = true; };
+  }, [image, receiptFile]);
+
+  const downloadJson = (issued: IssuedReceipt) => {
+    const link = document.createElement('a');
+    link.download = `${receiptFileName(issued.receipt)}.json`;
+    link.href = `data:application/json;charset=utf-8,${encodeURIComponent(JSON.stringify(issued.receipt, null, 2))}`;
+    link.click();
+  };
+
+  const printReceipt = (issued: IssuedReceipt) => {
+    const html = receiptToHtml(issued.receipt, issued.imageDataUrl);
+    const win = window.open('', '_blank');
+    if (!win) {
+      // Pop-ups blocked: hand over the page as a file instead
+      const link = document.createElement('a');
+      link.download = `${receiptFileName(issued.receipt)}.html`;
+      link.href = `data:text/html;charset=utf-8,${encodeURIComponent(html)}`;
+      link.click();
+      return;
+    }
+    win.document.write(html);
+    win.document.close();
+    // The page is complete once close() returns; a load listener added now would never fire
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
+      <div className="p-6 md:p-10 space-y-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-3"><ReceiptText className="text-indigo-600" /> Signing Receipts</h2>
+            <p className="text-slate-500 mt-1">Record who signed, how and when, with a hash of the exact file you downloaded.</p>
+          </div>
+          <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer select-none">
+            <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+            Create a receipt with each export
+          </label>
+        </div>
+
+        {latest && (
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 bg-slate-50 p-4 rounded-2xl border border-slate-100">
+            <div className="min-w-0">
+              <div className="text-sm font-bold text-slate-800 truncate">{latest.receipt.file.name} · {latest.receipt.signer ?? 'No signer name'}</div>
+              <div className="text-xs font-mono text-slate-400 truncate" title={latest.receipt.file.sha256}>SHA-256 {latest.receipt.file.sha256}</div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <button onClick={() => downloadJson(latest)} className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-slate-600 hover:text-indigo-600 transition-colors"><FileJson size={16} /> JSON</button>
+              <button onClick={() => printReceipt(latest)} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-xl hover:bg-indigo-700 transition-colors"><Printer size={16} /> Print</button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4 pt-6 border-t border-slate-100">
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Verify a signature file</h3>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:text-indigo-600 transition-colors cursor-pointer focus-within:ring-2 focus-within:ring-indigo-400">
+              <ImageUp size={16} /> {image ? image.name : 'Choose file'}
+              <input type="file" accept="image/png,image/jpeg,image/webp,image/svg+xml,application/pdf" className="sr-only" onChange={(e) => { setImage(e.target.files?.[0] ?? null); e.target.value = ''; }} />
+            </label>
+            <label className="flex items-center gap-2 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:text-indigo-600 transition-colors cursor-pointer focus-within:ring-2 focus-within:ring-indigo-400">
+              <FileJson size={16} /> {receiptFile ? receiptFile.name : 'Choose receipt'}
+              <input type="file" accept="application/json,.json" className="sr-only" onChange={(e) => { setReceiptFile(e.target.files?.[0] ?? null); e.target.value = ''; }} />
+            </label>
+          </div>
+          {check?.status === 'match' && checkedReceipt && (
+            <p className="flex items-start gap-2 text-sm font-semibold text-emerald-600">
+              <ShieldCheck size={18} className="shrink-0" />
+              This image is exactly the file described by the receipt: signed {checkedReceipt.signer ? `by ${checkedReceipt.signer} ` : ''}on {new Date(checkedReceipt.createdAt).toLocaleString()} ({checkedReceipt.timezone}){checkedReceipt.profile ? ` with the "${checkedReceipt.profile.name}" profile` : ''}.
+            </p>
+          )}
+          {check && check.status !== 'match' && (
+            <p className="flex items-start gap-2 text-sm font-semibold text-red-600">
+              <ShieldX size={18} className="shrink-0" />
+              {check.status === 'mismatch' ? `This image does not match the receipt. ${check.reason}` : check.reason}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SigningReceipts;
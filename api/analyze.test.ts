@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const generateContent = vi.fn();
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: class {
+    models = { generateContent };
+  }
+}));
+
+const { POST } = await import('./analyze');
+
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const APP = 'https://sign.example.com';
+
+let ip = 0;
+
+const request = (body: unknown, headers: Record<string, string> = { origin: APP }) =>
+  new Request(`${APP}/api/analyze`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': `10.0.0.${ip}`, ...headers },
+    body: JSON.stringify(body)
+  });
+
+beforeEach(() => {
+  ip++; // a fresh client for every test, so rate limits do not carry over
+  vi.stubEnv('API_KEY', 'test-key');
+  generateContent.mockReset().mockResolvedValue({ text: JSON.stringify({ overall: 80, summary: 'Fine.', scores: [], tips: [] }) });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('POST /api/analyze', () => {
+  it('analyzes a PNG from the app origin', async () => {
+    const response = await POST(request({ image: PNG, mimeType: 'image/png' }));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ overall: 80 });
+    expect(generateContent).toHaveBeenCalledOnce();
+  });
+
+  it('is unavailable without an API key', async () => {
+    vi.stubEnv('API_KEY', '');
+    expect((await POST(request({ image: PNG }))).status).toBe(503);
+  });
+
+  it('refuses other origins and requests without one', async () => {
+    expect((await POST(request({ image: PNG }, { origin: 'https://evil.example' }))).status).toBe(403);
+    expect((await POST(request({ image: PNG }, {}))).status).toBe(403);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('accepts the referer when there is no Origin header', async () => {
+    expect((await POST(request({ image: PNG }, { referer: `${APP}/?embed` }))).status).toBe(200);
+  });
+
+  it('uses the configured origin list instead of its own origin', async () => {
+    vi.stubEnv('ANALYSIS_ALLOWED_ORIGINS', 'https://forms.example.com, https://other.example.com');
+    expect((await POST(request({ image: PNG }, { origin: 'https://forms.example.com' }))).status).toBe(200);
+    expect((await POST(request({ image: PNG }))).status).toBe(403);
+  });
+
+  it('throttles a client over the rate limit', async () => {
+    vi.stubEnv('ANALYSIS_RATE_LIMIT', '2');
+    await POST(request({ image: PNG }));
+    await POST(request({ image: PNG }));
+    const limited = await POST(request({ image: PNG }));
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects anything but a base64 PNG', async () => {
+    expect((await POST(request({ image: PNG, mimeType: 'image/jpeg' }))).status).toBe(415);
+    expect((await POST(request({ image: '/9j/4AAQSkZJRg==' }))).status).toBe(400);
+    expect((await POST(request({ image: `${PNG}<script>` }))).status).toBe(400);
+    expect((await POST(request({}))).status).toBe(400);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('reports a model failure as a bad gateway', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    generateContent.mockRejectedValue(new Error('quota'));
+    expect((await POST(request({ image: PNG }))).status).toBe(502);
+  });
+});
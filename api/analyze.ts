@@ -0,0 +1,151 @@
+import { GoogleGenAI, Type } from '@google/genai';
+
+/**
+ * Serverless proxy for Gemini signature analysis (Vercel function at /api/analyze). The API key
+ * stays on the server; the browser only sends the rendered signature.
+ *
+ * Environment: API_KEY (required), ANALYSIS_MODEL (optional, defaults to gemini-3-flash-preview),
+ * ANALYSIS_ALLOWED_ORIGINS (optional, comma-separated origins allowed to call the proxy; defaults to
+ * the proxy's own origin), ANALYSIS_RATE_LIMIT (optional, requests per client IP per minute, 10).
+ */
+
+const MAX_IMAGE_BASE64 = 2 * 1024 * 1024;
+const RATE_WINDOW_MS = 60 * 1000;
+const DEFAULT_RATE_LIMIT = 10;
+const PNG_BASE64_PREFIX = 'iVBORw0KGgo'; // the PNG file signature
+
+const PROMPT = `You are reviewing a handwritten digital signature drawn on a white pad.
+Score each feature from 0 (poor) to 100 (excellent) for use as a professional signature:
+- size: how well the signature fills the signing area
+- slant: how consistent the lean of the letters is
+- strokeCount: whether it is written in a few fluid strokes rather than many broken marks
+- baseline: how level the writing sits on an imaginary line
+- legibility: how recognizable the letters are
+For each feature give a short measurement-like "value" and a one-sentence "note".
+Also give an "overall" score, a two-sentence "summary" of the style (professional, creative, messy or bold) and up to three short "tips".`;
+
+const responseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    overall: { type: Type.NUMBER },
+    summary: { type: Type.STRING },
+    scores: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          feature: { type: Type.STRING, enum: ['size', 'slant', 'strokeCount', 'baseline', 'legibility'] },
+          score: { type: Type.NUMBER },
+          value: { type: Type.STRING },
+          note: { type: Type.STRING }
+        },
+        required: ['feature', 'score', 'value', 'note']
+      }
+    },
+    tips: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['overall', 'summary', 'scores', 'tips']
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const toOrigin = (value: string | null) => {
+  if (!value) return null;
+  try {
+    return new URL(value).origin;
+  } catch {
+    return null;
+  }
+};
+
+const allowedOrigins = (request: Request) => {
+  const configured = (process.env.ANALYSIS_ALLOWED_ORIGINS ?? '').split(',').map(o => toOrigin(o.trim())).filter((o): o is string => !!o);
+  return configured.length > 0 ? configured : [new URL(request.url).origin];
+};
+
+/**
+ * The calling page's origin, from Origin or else Referer. Requests that carry neither (curl,
+ * scripts) are refused, since the proxy is only meant for the app's own pages.
+ */
+const callerOrigin = (request: Request) => toOrigin(request.headers.get('origin')) ?? toOrigin(request.headers.get('referer'));
+
+const clientIp = (request: Request) =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+
+// Per-instance sliding window. Serverless instances do not share it, so it only stops bursts from
+// one client; put a shared limiter in front for anything stricter.
+const recentRequests = new Map<string, number[]>();
+
+/**
+ * Records a request from the IP and returns the seconds to wait when it is over the limit
+ */
+const throttle = (ip: string, now = Date.now()) => {
+  const limit = Math.max(1, parseInt(process.env.ANALYSIS_RATE_LIMIT ?? '', 10) || DEFAULT_RATE_LIMIT);
+  const recent = (recentRequests.get(ip) ?? []).filter(t => now - t < RATE_WINDOW_MS);
+  if (recent.length >= limit) {
+    recentRequests.set(ip, recent);
+    return Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000);
+  }
+  recent.push(now);
+  recentRequests.set(ip, recent);
+  // Keep the map from growing without bound on a long-lived instance
+  if (recentRequests.size > 10000) {
+    for (const [key, times] of recentRequests) {
+      if (times.every(t => now - t >= RATE_WINDOW_MS)) recentRequests.delete(key);
+    }
+  }
+  return 0;
+};
+
+export async function POST(request: Request): Promise<Response> {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) return json({ error: 'AI analysis is not configured on this server.' }, 503);
+
+  const origin = callerOrigin(request);
+  if (!origin || !allowedOrigins(request).includes(origin)) {
+    return json({ error: 'This origin may not use the analysis service.' }, 403);
+  }
+
+  const retryAfter = throttle(clientIp(request));
+  if (retryAfter > 0) {
+    return new Response(JSON.stringify({ error: 'Too many analysis requests. Try again in a minute.' }), {
+      status: 429,
+      headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) }
+    });
+  }
+
+  let body: { image?: unknown; mimeType?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Invalid request body.' }, 400);
+  }
+  if (body.mimeType !== undefined && body.mimeType !== 'image/png') {
+    return json({ error: 'Only PNG images can be analyzed.' }, 415);
+  }
+  if (
+    typeof body.image !== 'string' || body.image.length > MAX_IMAGE_BASE64
+    || !body.image.startsWith(PNG_BASE64_PREFIX) || !/^[A-Za-z0-9+/]+={0,2}$/.test(body.image)
+  ) {
+    return json({ error: 'A base64 PNG signature image is required.' }, 400);
+  }
+
+  try {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: process.env.ANALYSIS_MODEL || 'gemini-3-flash-preview',
+      contents: {
+        parts: [
+          { inlineData: { data: body.image, mimeType: 'image/png' } },
+          { text: PROMPT }
+        ]
+      },
+      config: { responseMimeType: 'application/json', responseSchema }
+    });
+    return json(JSON.parse(response.text || '{}'));
+  } catch (e) {
+    console.error('Gemini analysis failed:', e);
+    return json({ error: 'The AI model could not analyze this signature right now.' }, 502);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Canvas creation for the rendering code. Browsers use a <canvas> element by default; other
+ * environments (Node with node-canvas, tests) install their own factory with setCanvasFactory.
+ */
+
+/**
+ * The part of a canvas the renderer relies on. HTMLCanvasElement satisfies it directly, and the
+ * Canvas class of node-canvas does with a cast of its context type.
+ */
+export interface RenderCanvas {
+  width: number;
+  height: number;
+  getContext(contextId: '2d', options?: CanvasRenderingContext2DSettings): CanvasRenderingContext2D | null;
+  toDataURL(type?: string, quality?: number): string;
+}
+
+export type CanvasFactory = (width: number, height: number) => RenderCanvas;
+
+const browserCanvasFactory: CanvasFactory = (width, height) => {
+  if (typeof document === 'undefined') throw new Error('No canvas available: call setCanvasFactory before rendering outside a browser');
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+let canvasFactory: CanvasFactory = browserCanvasFactory;
+
+export const setCanvasFactory = (factory: CanvasFactory | null) => {
+  canvasFactory = factory ?? browserCanvasFactory;
+};
+
+export const createCanvas = (width = 300, height = 150): RenderCanvas => canvasFactory(Math.max(1, Math.ceil(width)), Math.max(1, Math.ceil(height)));
+
+export const get2d = (canvas: RenderCanvas) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas context is not available');
+  return ctx;
+};
+
+/**
+ * Lets a RenderCanvas be drawn onto another canvas (drawImage is typed for DOM sources only)
+ */
+export const asImageSource = (canvas: RenderCanvas) => canvas as unknown as CanvasImageSource;
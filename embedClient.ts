@@ -0,0 +1,74 @@
+/**
+ * Host-page helper for embedding SignEase: creates the iframe and turns its messages into
+ * callbacks. It has no dependencies beyond the protocol types and can be bundled into any page.
+ */
+import { EmbedMode, EmbedMessage, SignedMetadata, EMBED_MESSAGE_SOURCE } from './embedProtocol';
+
+export interface EmbedOptions {
+  appUrl: string; // where SignEase is deployed, e.g. https://sign.example.com/
+  modes?: EmbedMode[];
+  inkColors?: string[];
+  profile?: string; // id of a built-in export profile
+  signer?: string;
+}
+
+export interface EmbedHandlers {
+  onReady?: () => void;
+  onSigned?: (result: { blob: Blob; dataUrl: string; metadata: SignedMetadata }) => void;
+  onCleared?: (mode: EmbedMode) => void;
+  onCancelled?: () => void;
+}
+
+export interface EmbeddedSignEase {
+  iframe: HTMLIFrameElement;
+  destroy: () => void;
+}
+
+export const buildEmbedUrl = (options: EmbedOptions, hostOrigin = window.location.origin) => {
+  const url = new URL(options.appUrl, window.location.href);
+  url.searchParams.set('embed', '');
+  url.searchParams.set('origin', hostOrigin);
+  if (options.modes?.length) url.searchParams.set('modes', options.modes.join(','));
+  if (options.inkColors?.length) url.searchParams.set('colors', options.inkColors.join(','));
+  if (options.profile) url.searchParams.set('profile', options.profile);
+  if (options.signer) url.searchParams.set('signer', options.signer);
+  return url.toString();
+};
+
+/**
+ * Adds the signing iframe to the container. Only messages from that iframe and the app's origin
+ * reach the handlers.
+ */
+export const mountSignEase = (container: HTMLElement, options: EmbedOptions, handlers: EmbedHandlers): EmbeddedSignEase => {
+  const src = buildEmbedUrl(options);
+  const appOrigin = new URL(src).origin;
+  const iframe = document.createElement('iframe');
+  iframe.src = src;
+  iframe.title = 'Signature pad';
+  iframe.allow = 'camera';
+  iframe.style.width = '100%';
+  iframe.style.minHeight = '560px';
+  iframe.style.border = '0';
+
+  const handleMessage = (e: MessageEvent) => {
+    if (e.source !== iframe.contentWindow || e.origin !== appOrigin) return;
+    const message = e.data as EmbedMessage | undefined;
+    if (!message || message.source !== EMBED_MESSAGE_SOURCE) return;
+    switch (message.type) {
+      case 'ready': handlers.onReady?.(); break;
+      case 'signed': handlers.onSigned?.({ blob: message.blob, dataUrl: message.dataUrl, metadata: message.metadata }); break;
+      case 'cleared': handlers.onCleared?.(message.mode); break;
+      case 'cancelled': handlers.onCancelled?.(); break;
+    }
+  };
+
+  window.addEventListener('message', handleMessage);
+  container.appendChild(iframe);
+  return {
+    iframe,
+    destroy: () => {
+      window.removeEventListener('message', handleMessage);
+      iframe.remove();
+    }
+  };
+};
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BUILT_IN_PROFILES } from './exportProfiles';
+import { EMBED_MODES, isEmbedRequest, parseEmbedConfig, postToHost } from './embedProtocol';
+
+const HOST = 'https://forms.example.com';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseEmbedConfig', () => {
+  it('reads modes in tab order, colors, the profile and the signer', () => {
+    const config = parseEmbedConfig(`?embed&modes=upload,draw,scan&colors=1e293b,%23ABC,red&profile=gov-form&signer=%20Ada%20`, '');
+    expect(config.modes).toEqual(['draw', 'upload']);
+    expect(config.inkColors).toEqual(['#1e293b', '#ABC']);
+    expect(config.profile.id).toBe('gov-form');
+    expect(config.signer).toBe('Ada');
+  });
+
+  it('falls back to the defaults for missing or unknown values', () => {
+    const config = parseEmbedConfig('?embed&modes=scan&profile=nope', '');
+    expect(config.modes).toEqual(EMBED_MODES);
+    expect(config.inkColors).toBeUndefined();
+    expect(config.profile).toBe(BUILT_IN_PROFILES[0]);
+    expect(parseEmbedConfig(`?signer=${'x'.repeat(150)}`, '').signer).toHaveLength(100);
+  });
+
+  it('takes the host origin from the origin parameter, else from the referrer', () => {
+    expect(parseEmbedConfig(`?origin=${encodeURIComponent(`${HOST}/path?q=1`)}`, 'https://other.example/').hostOrigin).toBe(HOST);
+    expect(parseEmbedConfig('?embed', `${HOST}/checkout`).hostOrigin).toBe(HOST);
+    expect(parseEmbedConfig('?origin=not-a-url', `${HOST}/`).hostOrigin).toBe(HOST);
+  });
+
+  it('has no host origin without an origin parameter or a referrer', () => {
+    expect(parseEmbedConfig('?embed', '').hostOrigin).toBeNull();
+    expect(parseEmbedConfig('?origin=file%3A%2F%2F%2Ftmp%2Fa.html', '').hostOrigin).toBeNull();
+  });
+});
+
+describe('isEmbedRequest', () => {
+  it('looks for the embed parameter', () => {
+    expect(isEmbedRequest('?embed')).toBe(true);
+    expect(isEmbedRequest('?modes=draw')).toBe(false);
+  });
+});
+
+describe('postToHost', () => {
+  const framed = () => {
+    const parent = { postMessage: vi.fn() };
+    vi.stubGlobal('window', { parent });
+    return parent.postMessage;
+  };
+
+  it('posts tagged events to the host origin only', () => {
+    const postMessage = framed();
+    postToHost(parseEmbedConfig('?embed', `${HOST}/`), { type: 'cancelled' });
+    expect(postMessage).toHaveBeenCalledWith({ type: 'cancelled', source: 'signease' }, HOST);
+  });
+
+  it('refuses to send without a host origin', () => {
+    const postMessage = framed();
+    postToHost(parseEmbedConfig('?embed', ''), { type: 'ready', modes: EMBED_MODES });
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('sends nothing when the page is not framed', () => {
+    const self: { parent?: unknown } = {};
+    self.parent = self;
+    vi.stubGlobal('window', self);
+    expect(() => postToHost(parseEmbedConfig('?embed', `${HOST}/`), { type: 'cancelled' })).not.toThrow();
+  });
+});
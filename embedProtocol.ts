@@ -0,0 +1,92 @@
+/**
+ * Embed mode: the pad on its own, opened in an iframe with `?embed` and configured through the
+ * query string. Results and lifecycle events go to the host page with postMessage.
+ */
+import { ExportProfile, BUILT_IN_PROFILES } from './exportProfiles';
+
+export type EmbedMode = 'draw' | 'type' | 'upload';
+
+export interface EmbedConfig {
+  modes: EmbedMode[]; // in tab order, never empty
+  inkColors?: string[]; // replaces the pad's ink choices when given
+  profile: ExportProfile;
+  signer: string;
+  hostOrigin: string | null; // target origin for every message; null when none could be determined
+}
+
+export interface SignedMetadata {
+  method: 'drawn' | 'typed' | 'uploaded';
+  signer: string;
+  font?: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+  withinLimit: boolean;
+  profileId: string;
+  signedAt: string;
+}
+
+export type EmbedEvent =
+  | { type: 'ready'; modes: EmbedMode[] }
+  | { type: 'signed'; blob: Blob; dataUrl: string; metadata: SignedMetadata }
+  | { type: 'cleared'; mode: EmbedMode }
+  | { type: 'cancelled' };
+
+export const EMBED_MESSAGE_SOURCE = 'signease';
+
+/**
+ * What the host receives: the event tagged with its source, so it can be told apart from other
+ * messages the page gets
+ */
+export type EmbedMessage = EmbedEvent & { source: typeof EMBED_MESSAGE_SOURCE };
+
+export const EMBED_MODES: EmbedMode[] = ['draw', 'type', 'upload'];
+
+const MAX_SIGNER_LENGTH = 100;
+
+export const isEmbedRequest = (search: string) => new URLSearchParams(search).has('embed');
+
+const listParam = (params: URLSearchParams, name: string) =>
+  (params.get(name) ?? '').split(',').map(v => v.trim()).filter(Boolean);
+
+const toOrigin = (value: string | null) => {
+  if (!value) return null;
+  try {
+    const origin = new URL(value).origin;
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads the embed configuration from the iframe URL. Unknown modes, malformed colors and unknown
+ * profile ids are dropped in favour of the defaults. Messages go to the `origin` parameter, else
+ * to the origin of the embedding page. With neither there is no safe target, and nothing is sent.
+ */
+export const parseEmbedConfig = (search: string, referrer: string): EmbedConfig => {
+  const params = new URLSearchParams(search);
+  const modes = EMBED_MODES.filter(m => listParam(params, 'modes').includes(m));
+  const inkColors = listParam(params, 'colors')
+    .map(c => (c.startsWith('#') ? c : `#${c}`))
+    .filter(c => /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(c));
+  const profileId = params.get('profile');
+  return {
+    modes: modes.length > 0 ? modes : EMBED_MODES,
+    inkColors: inkColors.length > 0 ? inkColors : undefined,
+    profile: BUILT_IN_PROFILES.find(p => p.id === profileId) ?? BUILT_IN_PROFILES[0],
+    signer: (params.get('signer') ?? '').trim().slice(0, MAX_SIGNER_LENGTH),
+    hostOrigin: toOrigin(params.get('origin')) ?? toOrigin(referrer)
+  };
+};
+
+/**
+ * Sends an event to the host page. Never posts to '*': the signed image must only reach the page
+ * that asked for it.
+ */
+export const postToHost = (config: EmbedConfig, event: EmbedEvent) => {
+  if (window.parent === window || !config.hostOrigin) return;
+  const message: EmbedMessage = { ...event, source: EMBED_MESSAGE_SOURCE };
+  window.parent.postMessage(message, config.hostOrigin);
+};
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCanvas, get2d } from './canvasFactory';
+import { BUILT_IN_PROFILES, ExportProfile, dataUrlToBytes, describeProfile, getOptimizedDataUrl, loadCustomProfiles } from './exportProfiles';
+
+/**
+ * A 1200x400 canvas of colored ink-like noise, far larger than any profile allows when encoded as is
+ */
+const noisyCanvas = () => {
+  const canvas = createCanvas(1200, 400);
+  const ctx = get2d(canvas);
+  let seed = 7;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  for (let i = 0; i < 3000; i++) {
+    ctx.strokeStyle = `rgb(${Math.floor(random() * 80)}, ${Math.floor(random() * 80)}, ${Math.floor(80 + random() * 175)})`;
+    ctx.lineWidth = 1 + random() * 4;
+    ctx.beginPath();
+    ctx.moveTo(random() * 1200, random() * 400);
+    ctx.lineTo(random() * 1200, random() * 400);
+    ctx.stroke();
+  }
+  return canvas;
+};
+
+const PNG: ExportProfile = { ...BUILT_IN_PROFILES[0], id: 'test-png', maxBytes: 1024 * 1024 };
+
+describe('getOptimizedDataUrl', () => {
+  it.each(BUILT_IN_PROFILES.map(p => [p.name, p] as const))('stays under the byte limit of %s', async (_name, profile) => {
+    const result = await getOptimizedDataUrl(noisyCanvas(), profile);
+    expect(result.withinLimit).toBe(true);
+    expect(dataUrlToBytes(result.dataUrl).length).toBe(result.bytes);
+    expect(result.bytes).toBeLessThanOrEqual(profile.maxBytes);
+  });
+
+  it('uses the format of the profile', async () => {
+    const jpg = await getOptimizedDataUrl(noisyCanvas(), BUILT_IN_PROFILES.find(p => p.format === 'jpg')!);
+    expect(jpg.mimeType).toBe('image/jpeg');
+    expect(jpg.dataUrl.startsWith('data:image/jpeg;base64,')).toBe(true);
+  });
+
+  it('keeps the source size when it already fits', async () => {
+    const result = await getOptimizedDataUrl(createCanvas(300, 100), PNG);
+    expect(result).toMatchObject({ width: 300, height: 100, withinLimit: true });
+  });
+
+  it('fits to a width given on its own and keeps the aspect ratio', async () => {
+    const result = await getOptimizedDataUrl(createCanvas(1200, 400), { ...PNG, width: 300 });
+    expect([result.width, result.height]).toEqual([300, 100]);
+    expect(describeProfile({ ...PNG, width: 300 })).toContain('300px wide');
+  });
+
+  it('fits to a height given on its own and keeps the aspect ratio', async () => {
+    const result = await getOptimizedDataUrl(createCanvas(1200, 400), { ...PNG, height: 50 });
+    expect([result.width, result.height]).toEqual([150, 50]);
+  });
+
+  it('writes the DPI of the profile into PNG files', async () => {
+    const result = await getOptimizedDataUrl(createCanvas(300, 100), { ...PNG, dpi: 300 });
+    const bytes = dataUrlToBytes(result.dataUrl);
+    expect(String.fromCharCode(...bytes.subarray(37, 41))).toBe('pHYs');
+    expect(new DataView(bytes.buffer).getUint32(41)).toBe(Math.round(300 / 0.0254));
+  });
+});
+
+describe('loadCustomProfiles', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stored = (value: string | null) => vi.stubGlobal('localStorage', { getItem: () => value });
+
+  it('keeps valid profiles and drops malformed ones', () => {
+    const valid = { id: 'a', name: 'Portal', maxBytes: 2048, width: 300, format: 'jpg', background: 'white', colorMode: 'bw', cropMargin: null, extra: 1 };
+    stored(JSON.stringify([
+      valid,
+      { ...valid, id: 'b', format: 'gif' },
+      { ...valid, id: 'c', maxBytes: -1 },
+      { ...valid, id: 'd', width: '300' },
+      { ...valid, id: 'e', cropMargin: undefined },
+      { ...valid, id: 'f', colorMode: 'sepia' },
+      null,
+      'profile'
+    ]));
+    expect(loadCustomProfiles()).toEqual([
+      { id: 'a', name: 'Portal', maxBytes: 2048, width: 300, format: 'jpg', background: 'white', colorMode: 'bw', cropMargin: null, builtIn: false }
+    ]);
+  });
+
+  it('returns nothing for unreadable storage', () => {
+    stored('{not json');
+    expect(loadCustomProfiles()).toEqual([]);
+    stored('{"id":"a"}');
+    expect(loadCustomProfiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,289 @@
+import { RenderCanvas, createCanvas, asImageSource } from './canvasFactory';
+
+export type ExportFormat = 'png' | 'jpg' | 'webp';
+export type ExportBackground = 'transparent' | 'white';
+export type ExportColorMode = 'color' | 'grayscale' | 'bw';
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  maxBytes: number;
+  width?: number; // exact output size in pixels; the signature is fitted inside. With only one of
+  height?: number; // the two, the other follows the signature's aspect ratio
+  dpi?: number; // written into the file metadata and used to pick the render resolution
+  format: ExportFormat;
+  background: ExportBackground;
+  colorMode: ExportColorMode;
+  cropMargin: number | null; // px of space kept around the ink, null exports the full pad
+  builtIn?: boolean;
+}
+
+export interface ExportResult {
+  dataUrl: string;
+  bytes: number;
+  width: number;
+  height: number;
+  mimeType: string;
+  withinLimit: boolean;
+}
+
+export const BUILT_IN_PROFILES: ExportProfile[] = [
+  { id: 'png-25kb', name: 'PNG · 25KB', maxBytes: 25 * 1024, format: 'png', background: 'transparent', colorMode: 'color', cropMargin: 10, builtIn: true },
+  { id: 'jpg-25kb', name: 'JPG · 25KB', maxBytes: 25 * 1024, format: 'jpg', background: 'white', colorMode: 'color', cropMargin: 10, builtIn: true },
+  { id: 'legacy-hr', name: 'Legacy HR portal · 10KB', maxBytes: 10 * 1024, format: 'jpg', background: 'white', colorMode: 'grayscale', cropMargin: 8, builtIn: true },
+  { id: 'contract', name: 'Contract · 100KB @ 300 DPI', maxBytes: 100 * 1024, dpi: 300, format: 'png', background: 'transparent', colorMode: 'color', cropMargin: 12, builtIn: true },
+  { id: 'gov-form', name: 'Government form · 400x150', maxBytes: 25 * 1024, width: 400, height: 150, format: 'png', background: 'white', colorMode: 'bw', cropMargin: 6, builtIn: true },
+  { id: 'webp-25kb', name: 'WebP · 25KB', maxBytes: 25 * 1024, format: 'webp', background: 'transparent', colorMode: 'color', cropMargin: 8, builtIn: true }
+];
+
+const CUSTOM_PROFILES_KEY = 'signease.exportProfiles';
+const SELECTED_PROFILE_KEY = 'signease.exportProfile';
+
+export const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+const isPositiveInt = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isOptionalPositiveInt = (value: unknown) => value === undefined || value === null || isPositiveInt(value);
+
+/**
+ * Checks a stored profile. Returns a clean copy, or null when a field the encoder relies on is
+ * missing or out of range.
+ */
+const normalizeProfile = (value: unknown): ExportProfile | null => {
+  const p = value as ExportProfile | null;
+  if (!p || typeof p.id !== 'string' || typeof p.name !== 'string' || !p.name.trim()) return null;
+  if (!isPositiveInt(p.maxBytes) || !(p.format in MIME_TYPES)) return null;
+  if (!isOptionalPositiveInt(p.width) || !isOptionalPositiveInt(p.height) || !isOptionalPositiveInt(p.dpi)) return null;
+  if (p.background !== 'transparent' && p.background !== 'white') return null;
+  if (p.colorMode !== 'color' && p.colorMode !== 'grayscale' && p.colorMode !== 'bw') return null;
+  if (p.cropMargin !== null && !(typeof p.cropMargin === 'number' && Number.isInteger(p.cropMargin) && p.cropMargin >= 0)) return null;
+  const profile: ExportProfile = {
+    id: p.id,
+    name: p.name,
+    maxBytes: p.maxBytes,
+    format: p.format,
+    background: p.background,
+    colorMode: p.colorMode,
+    cropMargin: p.cropMargin,
+    builtIn: false
+  };
+  if (p.width) profile.width = p.width;
+  if (p.height) profile.height = p.height;
+  if (p.dpi) profile.dpi = p.dpi;
+  return profile;
+};
+
+/**
+ * The user's saved profiles. Malformed entries are left out.
+ */
+export const loadCustomProfiles = (): ExportProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_PROFILES_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.map(normalizeProfile).filter((p): p is ExportProfile => p !== null);
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomProfiles = (profiles: ExportProfile[]) => {
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles.filter(p => !p.builtIn)));
+};
+
+export const loadSelectedProfileId = () => localStorage.getItem(SELECTED_PROFILE_KEY) || BUILT_IN_PROFILES[0].id;
+
+export const saveSelectedProfileId = (id: string) => localStorage.setItem(SELECTED_PROFILE_KEY, id);
+
+export const createProfileId = () => `custom-${Date.now().toString(36)}`;
+
+/**
+ * Render scale for vector sources: enough pixels for the profile's DPI, assuming a 96 DPI screen
+ */
+export const renderScaleFor = (profile: ExportProfile) => Math.max(2, (profile.dpi ?? 0) / 96);
+
+export const formatBytes = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`);
+
+export const describeProfile = (profile: ExportProfile) => {
+  const parts = [`max ${formatBytes(profile.maxBytes)}`, profile.format.toUpperCase()];
+  if (profile.width && profile.height) parts.push(`${profile.width}x${profile.height}px`);
+  else if (profile.width) parts.push(`${profile.width}px wide`);
+  else if (profile.height) parts.push(`${profile.height}px high`);
+  if (profile.dpi) parts.push(`${profile.dpi} DPI`);
+  parts.push(profile.background === 'white' || profile.format === 'jpg' ? 'white bg' : 'transparent');
+  if (profile.colorMode !== 'color') parts.push(profile.colorMode === 'bw' ? '1-bit' : 'grayscale');
+  parts.push(profile.cropMargin === null ? 'full pad' : `crop ${profile.cropMargin}px`);
+  return parts.join(' · ');
+};
+
+export const dataUrlToBytes = (dataUrl: string) => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Inserts a pHYs chunk right after IHDR (browsers never write one)
+ */
+const withPngDpi = (png: Uint8Array, dpi: number) => {
+  const ppm = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, ppm);
+  view.setUint32(12, ppm);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  const ihdrEnd = 8 + 8 + 13 + 4;
+  const out = new Uint8Array(png.length + chunk.length);
+  out.set(png.subarray(0, ihdrEnd));
+  out.set(chunk, ihdrEnd);
+  out.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return out;
+};
+
+/**
+ * Rewrites the density fields of the JFIF APP0 segment that canvas encoders emit
+ */
+const withJpegDpi = (jpeg: Uint8Array, dpi: number) => {
+  const isJfif = jpeg[2] === 0xff && jpeg[3] === 0xe0 && String.fromCharCode(...jpeg.subarray(6, 10)) === 'JFIF';
+  if (!isJfif) return jpeg;
+  const out = jpeg.slice();
+  const view = new DataView(out.buffer);
+  out[13] = 1; // unit: dots per inch
+  view.setUint16(14, dpi);
+  view.setUint16(16, dpi);
+  return out;
+};
+
+const applyColorMode = (ctx: CanvasRenderingContext2D, width: number, height: number, mode: ExportColorMode) => {
+  if (mode === 'color' || width === 0 || height === 0) return;
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    if (mode === 'grayscale') {
+      data[i] = data[i + 1] = data[i + 2] = luma;
+    } else {
+      // 1-bit: ink becomes solid black, everything else white or fully transparent
+      const ink = data[i + 3] >= 128 && luma < 160;
+      data[i] = data[i + 1] = data[i + 2] = ink ? 0 : 255;
+      data[i + 3] = ink || data[i + 3] >= 128 ? 255 : 0;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * Output size the profile fixes for this source, or null when the size is free to shrink
+ */
+const fixedSizeFor = (source: RenderCanvas, profile: ExportProfile) => {
+  const { width, height } = profile;
+  if (width && height) return { width, height };
+  if (width) return { width, height: Math.max(1, Math.round(source.height * width / Math.max(1, source.width))) };
+  if (height) return { width: Math.max(1, Math.round(source.width * height / Math.max(1, source.height))), height };
+  return null;
+};
+
+/**
+ * Encodes the canvas under the profile's byte limit by iteratively reducing quality and, unless the
+ * profile fixes the output size, dimensions
+ */
+export const getOptimizedDataUrl = async (sourceCanvas: RenderCanvas, profile: ExportProfile): Promise<ExportResult> => {
+  const mimeType = MIME_TYPES[profile.format];
+  const fixedSize = fixedSizeFor(sourceCanvas, profile);
+  const whiteBg = profile.background === 'white' || profile.format === 'jpg';
+
+  // Create a working canvas for resizing
+  const workCanvas = createCanvas();
+  const workCtx = workCanvas.getContext('2d', { willReadFrequently: profile.colorMode !== 'color' })!;
+
+  const encode = (quality?: number): ExportResult => {
+    let dataUrl = workCanvas.toDataURL(mimeType, quality);
+    // Browsers without a WebP encoder silently fall back to PNG
+    const actualType = dataUrl.slice(5, dataUrl.indexOf(';'));
+    if (profile.dpi && actualType !== 'image/webp') {
+      const bytes = dataUrlToBytes(dataUrl);
+      dataUrl = bytesToDataUrl(actualType === 'image/png' ? withPngDpi(bytes, profile.dpi) : withJpegDpi(bytes, profile.dpi), actualType);
+    }
+    const bytes = Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4) - (dataUrl.endsWith('==') ? 2 : dataUrl.endsWith('=') ? 1 : 0);
+    return { dataUrl, bytes, width: workCanvas.width, height: workCanvas.height, mimeType: actualType, withinLimit: bytes <= profile.maxBytes };
+  };
+
+  let best: ExportResult | null = null;
+  for (let scale = 1.0; scale > 0.05; scale -= 0.15) {
+    if (fixedSize) {
+      workCanvas.width = fixedSize.width;
+      workCanvas.height = fixedSize.height;
+    } else {
+      workCanvas.width = Math.max(1, Math.round(sourceCanvas.width * scale));
+      workCanvas.height = Math.max(1, Math.round(sourceCanvas.height * scale));
+    }
+
+    // Clear and Fill
+    workCtx.clearRect(0, 0, workCanvas.width, workCanvas.height);
+    if (whiteBg) {
+      workCtx.fillStyle = '#FFFFFF';
+      workCtx.fillRect(0, 0, workCanvas.width, workCanvas.height);
+    }
+
+    // Draw scaled, fitted and centered when the output size is fixed
+    const fit = fixedSize ? Math.min(workCanvas.width / sourceCanvas.width, workCanvas.height / sourceCanvas.height) : scale;
+    const drawWidth = sourceCanvas.width * fit;
+    const drawHeight = sourceCanvas.height * fit;
+    workCtx.imageSmoothingQuality = 'high';
+    workCtx.drawImage(asImageSource(sourceCanvas), (workCanvas.width - drawWidth) / 2, (workCanvas.height - drawHeight) / 2, drawWidth, drawHeight);
+    applyColorMode(workCtx, workCanvas.width, workCanvas.height, profile.colorMode);
+
+    if (profile.format === 'png') {
+      best = encode();
+      if (best.withinLimit) return best;
+    } else {
+      // Lossy formats can also trade quality for size
+      for (let q = 0.9; q > 0.1; q -= 0.1) {
+        best = encode(q);
+        if (best.withinLimit) return best;
+      }
+    }
+
+    // Fixed output sizes cannot shrink further
+    if (fixedSize) break;
+  }
+
+  return best!;
+};
@@ -0,0 +1,31 @@
+/**
+ * The typed-signature fonts that ship with the app. Kept free of imports so the build (see
+ * serviceWorkerPlugin.ts) can read the list as well as the browser code.
+ */
+
+export type FontFormat = 'ttf' | 'otf' | 'woff' | 'woff2';
+
+export interface TypedFont {
+  name: string;
+  family: string; // CSS font-family list, as used by canvas and previews
+  class?: string; // preview class for the built-in Google fonts
+  outlineUrl?: string; // WOFF build used to convert glyphs into SVG outlines
+  customId?: string; // set for fonts the user added
+  format?: FontFormat;
+}
+
+// WOFF builds of the typed fonts, used to convert glyphs into SVG outlines
+const FONT_OUTLINE_BASE = 'https://cdn.jsdelivr.net/fontsource/fonts';
+
+// Pinned so SVG exports only change with a code change, and so a version bump here also renames
+// the service worker's font cache. Versions are the @fontsource npm package versions.
+const outlineUrl = (slug: string, version: string) => `${FONT_OUTLINE_BASE}/${slug}@${version}/latin-400-normal.woff`;
+
+export const BUILT_IN_FONTS: TypedFont[] = [
+  { name: 'Dancing Script', class: 'font-cursive-dancing', family: "'Dancing Script', cursive", outlineUrl: outlineUrl('dancing-script', '5.3.0') },
+  { name: 'Pacifico', class: 'font-cursive-pacifico', family: "'Pacifico', cursive", outlineUrl: outlineUrl('pacifico', '5.3.0') },
+  { name: 'Great Vibes', class: 'font-cursive-greatvibes', family: "'Great Vibes', cursive", outlineUrl: outlineUrl('great-vibes', '5.3.0') },
+  { name: 'Caveat', class: 'font-cursive-caveat', family: "'Caveat', cursive", outlineUrl: outlineUrl('caveat', '5.3.0') },
+  { name: 'Sacramento', class: 'font-cursive-sacramento', family: "'Sacramento', cursive", outlineUrl: outlineUrl('sacramento', '5.3.0') },
+  { name: 'Monsieur La Doulaise', class: 'font-cursive-monsieur', family: "'Monsieur La Doulaise', cursive", outlineUrl: outlineUrl('monsieur-la-doulaise', '5.3.0') }
+];
@@ -0,0 +1,20 @@
+/**
+ * High-contrast theme: a class on <html> that the stylesheet in index.html keys off. Until the
+ * user picks a setting, it follows the system's "increase contrast" preference.
+ */
+
+const HIGH_CONTRAST_KEY = 'signease.highContrast';
+
+export const loadHighContrast = () => {
+  const stored = localStorage.getItem(HIGH_CONTRAST_KEY);
+  if (stored !== null) return stored === 'on';
+  return window.matchMedia?.('(prefers-contrast: more)').matches ?? false;
+};
+
+export const saveHighContrast = (enabled: boolean) => {
+  localStorage.setItem(HIGH_CONTRAST_KEY, enabled ? 'on' : 'off');
+};
+
+export const applyHighContrast = (enabled: boolean) => {
+  document.documentElement.classList.toggle('high-contrast', enabled);
+};
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import { 
   PenTool, 
@@ -8,109 +8,304 @@ import {
   CheckCircle2, 
   Sparkles,
   Sliders,
-  FileWarning
+  Undo2,
+  Redo2,
+  MousePointer2,
+  PaintBucket,
+  ImageUp,
+  Play,
+  Square,
+  FileJson,
+  FilePlus2,
+  RotateCcw,
+  Check,
+  X,
+  Contrast,
+  Keyboard,
+  WifiOff,
+  RefreshCw
 } from 'lucide-react';
-import { GoogleGenAI } from "@google/genai";
+import { Stroke, StrokePoint } from './types';
+import PdfSigner, { SignatureSource, SignedPdf } from './PdfSigner';
+import SignatureLibrary, { CapturedEntry } from './SignatureLibrary';
+import { LibraryEntry, LibraryKind, LibraryMethod } from './signatureLibrary';
+import { CleanedSignature, cleanupSignaturePhoto, renderCleanedSignature } from './photoCleanup';
+import { buildStrokeEvidence, replayTimeline } from './strokeEvidence';
+import { TypedFont, BUILT_IN_FONTS } from './fontCatalog';
+import {
+  FontSettings,
+  DEFAULT_FONT_SETTINGS,
+  loadFontSettings,
+  saveFontSettings,
+  listCustomFonts,
+  registerCustomFont,
+  storedFontToTypedFont,
+  addCustomFont,
+  deleteCustomFont,
+  ensureFontLoaded,
+  hasOutlines,
+  loadFontOutlines
+} from './typedFonts';
+import {
+  SignatureAnalysis,
+  ANALYSIS_PROVIDERS,
+  loadSelectedProviderId,
+  saveSelectedProviderId
+} from './signatureAnalysis';
+import SignatureCompare from './SignatureCompare';
+import SigningReceipts, { IssuedReceipt } from './SigningReceipts';
+import { buildSigningReceipt } from './signingReceipt';
+import ExportProfilePanel from './ExportProfilePanel';
+import SignatureBlockPanel from './SignatureBlockPanel';
+import {
+  InitialsStyle,
+  SignatureBlockOptions,
+  loadBlockOptions,
+  saveBlockOptions,
+  hasBlockText,
+  composeSignatureBlock,
+  formatInitials
+} from './signatureBlock';
+import {
+  ExportProfile,
+  ExportResult,
+  BUILT_IN_PROFILES,
+  EXTENSIONS,
+  loadCustomProfiles,
+  loadSelectedProfileId,
+  getOptimizedDataUrl,
+  dataUrlToBytes,
+  formatBytes
+} from './exportProfiles';
+import { RenderCanvas, createCanvas, get2d, asImageSource } from './canvasFactory';
+import {
+  drawStroke,
+  drawGuidelines,
+  renderStrokesCropped,
+  renderStrokesFull,
+  renderTypedCropped,
+  typedTextToSvg,
+  svgToDataUrl,
+  prepareExportStrokes,
+  drawnExportCanvas,
+  typedExportCanvas,
+  drawnSignatureToSvg
+} from './signatureRenderer';
+import { EmbedConfig, EmbedEvent, EmbedMode, isEmbedRequest, parseEmbedConfig, postToHost } from './embedProtocol';
+import { loadHighContrast, saveHighContrast, applyHighContrast } from './highContrast';
+import { registerServiceWorker } from './serviceWorkerRegistration';
 
-const MAX_FILE_SIZE_BYTES = 25 * 1024; // 25KB
+const INK_COLORS = ['#000000', '#0000FF'];
+const INK_NAMES: Record<string, string> = { '#000000': 'Black', '#0000FF': 'Blue' };
+const EMBED_MODE_LABELS: Record<EmbedMode, string> = { draw: 'Draw', type: 'Type', upload: 'Upload' };
 
-const SignaturePad = () => {
-  const [color, setColor] = useState('#000000');
+interface StrokeHistory {
+  past: Stroke[][];
+  present: Stroke[];
+  future: Stroke[][];
+  mergeKey?: string; // set by the last commit when later commits with the same key fold into it
+}
+
+const createStrokeId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const distanceToSegment = (px: number, py: number, a: StrokePoint, b: StrokePoint) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - a.x) * dx + (py - a.y) * dy) / lenSq));
+  return Math.hypot(px - (a.x + t * dx), py - (a.y + t * dy));
+};
+
+/**
+ * Returns the topmost stroke passing within reach of the given point, if any
+ */
+const hitTestStrokes = (strokes: Stroke[], x: number, y: number): Stroke | null => {
+  for (let s = strokes.length - 1; s >= 0; s--) {
+    const stroke = strokes[s];
+    const reach = Math.max(8, stroke.penWidth / 2 + 4);
+    const pts = stroke.points;
+    if (pts.length === 1 && Math.hypot(x - pts[0].x, y - pts[0].y) <= reach) return stroke;
+    for (let i = 1; i < pts.length; i++) {
+      if (distanceToSegment(x, y, pts[i - 1], pts[i]) <= reach) return stroke;
+    }
+  }
+  return null;
+};
+
+/**
+ * Downscales a rendering to a small PNG for library previews
+ */
+const makeThumbnail = (source: RenderCanvas, maxWidth = 240, maxHeight = 80) => {
+  const fit = Math.min(1, maxWidth / source.width, maxHeight / source.height);
+  const canvas = createCanvas(Math.round(source.width * fit), Math.round(source.height * fit));
+  const ctx = get2d(canvas);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(asImageSource(source), 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Keeps the committed strokes alongside undo/redo snapshots. Consecutive commits with the same
+ * merge key (e.g. every tick of one slider drag) make a single undo step.
+ */
+const useStrokeHistory = () => {
+  const [history, setHistory] = useState<StrokeHistory>({ past: [], present: [], future: [] });
+
+  const commit = useCallback((update: (strokes: Stroke[]) => Stroke[], mergeKey?: string) => {
+    setHistory(h => {
+      const next = update(h.present);
+      if (next === h.present) return h;
+      if (mergeKey && mergeKey === h.mergeKey) return { ...h, present: next, future: [] };
+      return { past: [...h.past, h.present], present: next, future: [], mergeKey };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) };
+    });
+  }, []);
+
+  // Ends the current run of merged commits, so the next one starts a new undo step
+  const endMerge = useCallback(() => {
+    setHistory(h => (h.mergeKey ? { ...h, mergeKey: undefined } : h));
+  }, []);
+
+  return {
+    strokes: history.present,
+    commit,
+    endMerge,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
+
+const useOnlineStatus = () => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+};
+
+interface SignaturePadProps {
+  embed?: EmbedConfig; // embed mode: only the pad, with results reported through onEmbedEvent
+  onEmbedEvent?: (event: EmbedEvent) => void;
+}
+
+const SignaturePad = ({ embed, onEmbedEvent }: SignaturePadProps) => {
+  const inkColors = embed?.inkColors ?? INK_COLORS;
+  const [color, setColor] = useState(inkColors[0]);
   const [penWidth, setPenWidth] = useState(3);
-  const [typedName, setTypedName] = useState('');
-  const [typedWeight, setTypedWeight] = useState(0); 
-  const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
+  const [typedName, setTypedName] = useState(embed?.signer ?? '');
+  const [typedWeight, setTypedWeight] = useState(0);
+  const [typedContent, setTypedContent] = useState<'name' | InitialsStyle>('name');
+  const [blockOptions, setBlockOptions] = useState<SignatureBlockOptions>(loadBlockOptions);
+  const [selectedFontName, setSelectedFontName] = useState('Dancing Script');
+  const [customFonts, setCustomFonts] = useState<TypedFont[]>([]);
+  const [fontSettings, setFontSettings] = useState<Record<string, FontSettings>>(loadFontSettings);
+  const [fontError, setFontError] = useState<string | null>(null);
+  const [, setFontsVersion] = useState(0);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadSensitivity, setUploadSensitivity] = useState(0.5);
+  const [cleanedUpload, setCleanedUpload] = useState<CleanedSignature | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null); 
+  const [analysis, setAnalysis] = useState<SignatureAnalysis | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [analysisProviderId, setAnalysisProviderId] = useState(loadSelectedProviderId);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isOptimizing, setIsOptimizing] = useState(false);
+  const [exportProfile, setExportProfile] = useState<ExportProfile>(() => {
+    if (embed) return embed.profile;
+    const selectedId = loadSelectedProfileId();
+    return [...BUILT_IN_PROFILES, ...loadCustomProfiles()].find(p => p.id === selectedId) ?? BUILT_IN_PROFILES[0];
+  });
+  const [previewSourceId, setPreviewSourceId] = useState('drawn');
+  const [exportPreview, setExportPreview] = useState<ExportResult | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [receiptsEnabled, setReceiptsEnabled] = useState(false);
+  const [latestReceipt, setLatestReceipt] = useState<IssuedReceipt | null>(null);
+  const [embedMode, setEmbedMode] = useState<EmbedMode>(embed?.modes[0] ?? 'draw');
+  const [embedError, setEmbedError] = useState<string | null>(null);
+  // Text for the screen-reader live region; the id makes a repeated message be read again
+  const [announcement, setAnnouncement] = useState({ id: 0, text: '' });
+  
+  const [tool, setTool] = useState<'pen' | 'select'>('pen');
+  const [straighten, setStraighten] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [selectedStrokeId, setSelectedStrokeId] = useState<string | null>(null);
+  const { strokes, commit, endMerge, undo, redo, canUndo, canRedo } = useStrokeHistory();
+  const online = useOnlineStatus();
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const points = useRef<{ x: number, y: number }[]>([]);
-  const isDrawing = useRef(false);
+  const currentStroke = useRef<Stroke | null>(null);
+  const activePointerId = useRef<number | null>(null);
 
   // Constants
   const DISPLAY_WIDTH = 600;
   const DISPLAY_HEIGHT = 350;
 
-  const typedFonts = [
-    { name: 'Dancing Script', class: 'font-cursive-dancing', family: "'Dancing Script', cursive" },
-    { name: 'Pacifico', class: 'font-cursive-pacifico', family: "'Pacifico', cursive" },
-    { name: 'Great Vibes', class: 'font-cursive-greatvibes', family: "'Great Vibes', cursive" },
-    { name: 'Caveat', class: 'font-cursive-caveat', family: "'Caveat', cursive" },
-    { name: 'Sacramento', class: 'font-cursive-sacramento', family: "'Sacramento', cursive" },
-    { name: 'Monsieur La Doulaise', class: 'font-cursive-monsieur', family: "'Monsieur La Doulaise', cursive" }
-  ];
+  const typedFonts = [...BUILT_IN_FONTS, ...customFonts];
 
-  /**
-   * Enforces the 25KB limit by iteratively reducing quality and dimensions
-   */
-  const getOptimizedDataUrl = async (sourceCanvas: HTMLCanvasElement, format: 'png' | 'jpg', hasWhiteBg: boolean): Promise<string> => {
-    let scale = 1.0;
-    let quality = 0.9;
-    const mimeType = format === 'jpg' ? 'image/jpeg' : 'image/png';
-    
-    // Create a working canvas for resizing
-    const workCanvas = document.createElement('canvas');
-    const workCtx = workCanvas.getContext('2d')!;
-
-    while (scale > 0.05) {
-      workCanvas.width = sourceCanvas.width * scale;
-      workCanvas.height = sourceCanvas.height * scale;
-      
-      // Clear and Fill
-      workCtx.clearRect(0, 0, workCanvas.width, workCanvas.height);
-      if (hasWhiteBg) {
-        workCtx.fillStyle = '#FFFFFF';
-        workCtx.fillRect(0, 0, workCanvas.width, workCanvas.height);
-      }
-      
-      // Draw scaled
-      workCtx.drawImage(sourceCanvas, 0, 0, sourceCanvas.width, sourceCanvas.height, 0, 0, workCanvas.width, workCanvas.height);
-      
-      // Check size (Base64 is ~33% larger than binary, so we estimate)
-      if (format === 'jpg') {
-        // For JPG we can also try decreasing quality
-        for (let q = quality; q > 0.1; q -= 0.1) {
-          const dataUrl = workCanvas.toDataURL(mimeType, q);
-          const size = Math.round((dataUrl.length - 22) * 3 / 4); // Basic base64 size estimation
-          if (size <= MAX_FILE_SIZE_BYTES) return dataUrl;
-        }
-      } else {
-        const dataUrl = workCanvas.toDataURL(mimeType);
-        const size = Math.round((dataUrl.length - 22) * 3 / 4);
-        if (size <= MAX_FILE_SIZE_BYTES) return dataUrl;
-      }
-      
-      // If still too big, shrink dimensions further
-      scale -= 0.15;
-    }
-    
-    // Last ditch effort: tiny thumbnail
-    return workCanvas.toDataURL(mimeType, 0.1);
-  };
-
-  const drawCanvasGuidelines = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number, dpr: number) => {
-    ctx.save();
-    ctx.setLineDash([]);
-    ctx.strokeStyle = 'rgba(99, 102, 241, 0.1)';
-    ctx.lineWidth = 1;
-    for (let i = 40; i < height; i += 30) {
-      ctx.beginPath();
-      ctx.moveTo(0, i);
-      ctx.lineTo(width, i);
-      ctx.stroke();
+  const announce = (text: string) => setAnnouncement(prev => ({ id: prev.id + 1, text }));
+
+  // What the typed cards show and export: the name, or initials generated from it
+  const typedText = typedContent === 'name'
+    ? typedName || 'Signature'
+    : formatInitials(typedName || 'Jonathan Doe', typedContent);
+
+  const settingsFor = (fontName: string) => fontSettings[fontName] ?? DEFAULT_FONT_SETTINGS;
+
+  const updateFontSettings = (fontName: string, patch: Partial<FontSettings>) => {
+    setFontSettings(prev => {
+      const next = { ...prev, [fontName]: { ...(prev[fontName] ?? DEFAULT_FONT_SETTINGS), ...patch } };
+      saveFontSettings(next);
+      return next;
+    });
+  };
+
+  const paintCanvas = useCallback((highlightId: string | null) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr);
+    drawGuidelines(ctx, canvas.width / dpr, canvas.height / dpr);
+    for (const stroke of strokes) {
+      if (stroke.id === highlightId) drawStroke(ctx, stroke, true);
+      drawStroke(ctx, stroke);
     }
-    const lineY = height * 0.8;
-    ctx.strokeStyle = 'rgba(71, 85, 105, 0.4)';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(50, lineY);
-    ctx.lineTo(width - 50, lineY);
-    ctx.stroke();
-    ctx.font = `bold ${24}px Inter`;
-    ctx.fillStyle = 'rgba(71, 85, 105, 0.4)';
-    ctx.fillText('X', 55, lineY - 10);
-    ctx.restore();
-  }, []);
+    if (currentStroke.current) drawStroke(ctx, currentStroke.current);
+  }, [strokes]);
+
+  const redrawCanvas = useCallback(() => paintCanvas(selectedStrokeId), [paintCanvas, selectedStrokeId]);
+
+  const getPadSize = () => {
+    const canvas = canvasRef.current;
+    const dpr = window.devicePixelRatio || 1;
+    return canvas ? { width: canvas.width / dpr, height: canvas.height / dpr } : { width: DISPLAY_WIDTH, height: DISPLAY_HEIGHT };
+  };
 
   const setupCanvas = useCallback(() => {
     const canvas = canvasRef.current;
@@ -127,141 +322,622 @@ const SignaturePad = () => {
       ctx.scale(dpr, dpr);
       ctx.lineCap = 'round';
       ctx.lineJoin = 'round';
-      drawCanvasGuidelines(ctx, rectWidth, rectHeight, dpr);
     }
-  }, [drawCanvasGuidelines]);
+  }, []);
+
+  const latestRedraw = useRef(redrawCanvas);
+  latestRedraw.current = redrawCanvas;
 
   useEffect(() => {
-    setupCanvas();
-    window.addEventListener('resize', setupCanvas);
-    return () => window.removeEventListener('resize', setupCanvas);
+    const handleResize = () => {
+      setupCanvas();
+      latestRedraw.current();
+    };
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
   }, [setupCanvas]);
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    isDrawing.current = true;
-    const coords = getCoordinates(e);
-    points.current = [coords];
+  useEffect(() => {
+    if (!isReplaying) redrawCanvas();
+  }, [redrawCanvas, isReplaying]);
+
+  // Re-animates the strokes with their recorded timing
+  useEffect(() => {
+    if (!isReplaying) return;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || strokes.length === 0) {
+      setIsReplaying(false);
+      return;
+    }
+    const { times, duration } = replayTimeline(strokes);
+    const dpr = window.devicePixelRatio || 1;
+    let frame = 0;
+    const start = performance.now();
+    const tick = (now: number) => {
+      const elapsed = now - start;
+      ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr);
+      drawGuidelines(ctx, canvas.width / dpr, canvas.height / dpr);
+      strokes.forEach((stroke, i) => {
+        const visible = times[i].filter(t => t <= elapsed).length;
+        if (visible > 0) drawStroke(ctx, { ...stroke, points: stroke.points.slice(0, visible) });
+      });
+      if (elapsed < duration) frame = requestAnimationFrame(tick);
+      else setIsReplaying(false);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isReplaying, strokes]);
+
+  useEffect(() => {
+    if (selectedStrokeId && !strokes.some(s => s.id === selectedStrokeId)) setSelectedStrokeId(null);
+  }, [strokes, selectedStrokeId]);
+
+  const startDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    // Palm rejection: only a pen or the primary pointer may draw, and only one at a time
+    if (isReplaying || activePointerId.current !== null || (e.pointerType !== 'pen' && !e.isPrimary)) return;
+    const coords = getCoordinates(e.nativeEvent);
+    if (tool === 'select') {
+      setSelectedStrokeId(hitTestStrokes(strokes, coords.x, coords.y)?.id ?? null);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activePointerId.current = e.pointerId;
+    currentStroke.current = { id: createStrokeId(), points: [coords], color, penWidth, pointerType: e.pointerType };
+    redrawCanvas();
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing.current || !canvasRef.current) return;
-    const ctx = canvasRef.current.getContext('2d');
-    if (!ctx) return;
-    const coords = getCoordinates(e);
-    points.current.push(coords);
-    if (points.current.length < 3) return;
-    ctx.beginPath();
-    ctx.strokeStyle = color;
-    ctx.lineWidth = penWidth;
-    ctx.moveTo(points.current[0].x, points.current[0].y);
-    for (let i = 1; i < points.current.length - 2; i++) {
-      const xc = (points.current[i].x + points.current[i + 1].x) / 2;
-      const yc = (points.current[i].y + points.current[i + 1].y) / 2;
-      ctx.quadraticCurveTo(points.current[i].x, points.current[i].y, xc, yc);
+  const draw = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerId.current || !currentStroke.current) return;
+    // Coalesced events keep the full input rate of pens and high-frequency touch screens
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    for (const ev of events.length > 0 ? events : [e.nativeEvent]) {
+      currentStroke.current.points.push(getCoordinates(ev));
     }
-    const n = points.current.length;
-    ctx.quadraticCurveTo(points.current[n - 2].x, points.current[n - 2].y, points.current[n - 1].x, points.current[n - 1].y);
-    ctx.stroke();
+    redrawCanvas();
   };
 
-  const getCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
+  const stopDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerId.current) return;
+    activePointerId.current = null;
+    const stroke = currentStroke.current;
+    currentStroke.current = null;
+    if (stroke) commit(prev => [...prev, stroke]);
+  };
+
+  const getCoordinates = (e: PointerEvent): StrokePoint => {
     const canvas = canvasRef.current!;
     const rect = canvas.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
-    return { x: clientX - rect.left, y: clientY - rect.top };
+    const point: StrokePoint = { x: e.clientX - rect.left, y: e.clientY - rect.top, t: performance.timeOrigin + e.timeStamp };
+    if (e.pointerType === 'pen' && e.pressure > 0) point.pressure = e.pressure;
+    return point;
   };
 
   const clearCanvas = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    const dpr = window.devicePixelRatio || 1;
-    drawCanvasGuidelines(ctx, canvas.width / dpr, canvas.height / dpr, dpr);
-    setAiAnalysis(null);
+    commit(prev => (prev.length === 0 ? prev : []));
+    setSelectedStrokeId(null);
+    setAnalysis(null);
+    setAnalysisError(null);
+    onEmbedEvent?.({ type: 'cleared', mode: 'draw' });
+  };
+
+  const deleteSelectedStroke = useCallback(() => {
+    if (!selectedStrokeId) return;
+    commit(prev => prev.filter(s => s.id !== selectedStrokeId));
+    setSelectedStrokeId(null);
+  }, [selectedStrokeId, commit]);
+
+  const restyleStrokes = (style: Partial<Pick<Stroke, 'color' | 'penWidth'>>, onlySelected: boolean, mergeKey?: string) => {
+    commit(prev => {
+      const targets = prev.filter(s => !onlySelected || s.id === selectedStrokeId);
+      const unchanged = targets.every(s => (style.color ?? s.color) === s.color && (style.penWidth ?? s.penWidth) === s.penWidth);
+      if (unchanged) return prev;
+      return prev.map(s => (targets.includes(s) ? { ...s, ...style } : s));
+    }, mergeKey);
+  };
+
+  // Ink controls restyle the selected stroke, otherwise they set the pen for new strokes
+  const changeColor = (next: string) => {
+    setColor(next);
+    if (selectedStrokeId) restyleStrokes({ color: next }, true);
+  };
+
+  const changePenWidth = (next: number) => {
+    setPenWidth(next);
+    // A slider drag sends a change per step; they all undo together
+    if (selectedStrokeId) restyleStrokes({ penWidth: next }, true, `penWidth:${selectedStrokeId}`);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if ((key === 'delete' || key === 'backspace') && selectedStrokeId) {
+        e.preventDefault();
+        deleteSelectedStroke();
+      } else if (key === 'escape') {
+        setSelectedStrokeId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, selectedStrokeId, deleteSelectedStroke]);
+
+  /**
+   * Produces the canvas an export profile starts from: trimmed to the ink when the profile has a
+   * crop margin, otherwise the full pad or typed canvas
+   */
+  const exportCanvasFor = async (sourceId: string, profile: ExportProfile): Promise<RenderCanvas | null> => {
+    if (sourceId === 'drawn') return drawnExportCanvas(strokes, profile, { pad: getPadSize(), straighten });
+    if (sourceId === 'uploaded') {
+      return cleanedUpload ? renderCleanedSignature(cleanedUpload, color, profile.cropMargin) : null;
+    }
+    const font = typedFonts.find(f => `typed:${f.name}` === sourceId);
+    if (!font) return null;
+    await ensureFontLoaded(font, typedText);
+    return typedExportCanvas({ text: typedText, fontFamily: font.family, color, weight: typedWeight, settings: settingsFor(font.name) }, profile);
+  };
+
+  /**
+   * The export canvas with the title and date block around it, when one is configured
+   */
+  const blockCanvasFor = async (sourceId: string, profile: ExportProfile): Promise<RenderCanvas | null> => {
+    const canvas = await exportCanvasFor(sourceId, profile);
+    return canvas && hasBlockText(blockOptions) ? composeSignatureBlock(canvas, blockOptions, color) : canvas;
+  };
+
+  const changeBlockOptions = (next: SignatureBlockOptions) => {
+    setBlockOptions(next);
+    saveBlockOptions(next);
+  };
+
+  /**
+   * The one download path for signature files: saves the bytes and, when receipts are on, issues
+   * a receipt for exactly those bytes. `sourceId` is a pdfSources id, or null when the file holds
+   * no signature (a PDF with only initials or dates).
+   */
+  const saveExport = async (file: { fileName: string; mimeType: string; data: Uint8Array; width: number; height: number; sourceId: string | null; profile: ExportProfile | null; previewUrl?: string }) => {
+    const url = URL.createObjectURL(new Blob([new Uint8Array(file.data)], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.download = file.fileName;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    if (!receiptsEnabled) return;
+    const sourceId = file.sourceId ?? `typed:${selectedFontName}`;
+    const receipt = await buildSigningReceipt({
+      signer: typedName,
+      method: sourceId.startsWith('typed:') ? 'typed' : sourceId === 'uploaded' ? 'uploaded' : 'drawn',
+      font: sourceId.startsWith('typed:') ? sourceId.slice('typed:'.length) : undefined,
+      straightened: sourceId === 'drawn' && straighten,
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      width: file.width,
+      height: file.height,
+      profile: file.profile
+    }, file.data);
+    setLatestReceipt({ receipt, imageDataUrl: file.previewUrl });
   };
 
-  const downloadAsImage = async (format: 'png' | 'jpg') => {
-    if (!canvasRef.current || isOptimizing) return;
+  const downloadWithProfile = async (sourceId: string, fileBase: string) => {
+    if (isOptimizing) return;
     setIsOptimizing(true);
-    
+
     try {
-      const optimizedUrl = await getOptimizedDataUrl(canvasRef.current, format, format === 'jpg');
-      const link = document.createElement('a');
-      link.download = `signature.${format}`;
-      link.href = optimizedUrl;
-      link.click();
+      const sourceCanvas = await blockCanvasFor(sourceId, exportProfile);
+      if (!sourceCanvas) return;
+      const result = await getOptimizedDataUrl(sourceCanvas, exportProfile);
+      const fileName = `${fileBase}.${EXTENSIONS[result.mimeType] ?? exportProfile.format}`;
+      await saveExport({
+        fileName,
+        mimeType: result.mimeType,
+        data: dataUrlToBytes(result.dataUrl),
+        width: result.width,
+        height: result.height,
+        sourceId,
+        profile: exportProfile,
+        previewUrl: result.dataUrl
+      });
+      announce(`Downloaded ${fileName}, ${formatBytes(result.bytes)}${result.withinLimit ? '' : `, over the ${formatBytes(exportProfile.maxBytes)} limit`}.`);
+      if (sourceId.startsWith('typed:')) setFontError(null);
     } catch (e) {
       console.error("Download failed:", e);
+      const message = e instanceof Error ? e.message : 'The signature could not be exported.';
+      if (sourceId.startsWith('typed:')) setFontError(message);
+      announce(`Download failed. ${message}`);
     } finally {
       setIsOptimizing(false);
     }
   };
 
-  const exportTypedSignature = async (name: string, font: string, format: 'png' | 'jpg') => {
-    if (isOptimizing) return;
-    setIsOptimizing(true);
+  const latestExportCanvasFor = useRef(blockCanvasFor);
+  latestExportCanvasFor.current = blockCanvasFor;
 
-    const tempCanvas = document.createElement('canvas');
-    const ctx = tempCanvas.getContext('2d')!;
-    const scale = 2;
-    tempCanvas.width = 1200 * scale;
-    tempCanvas.height = 400 * scale;
+  // Re-encode with the active profile shortly after anything affecting the output changes
+  useEffect(() => {
+    // The embedded pad has no preview panel
+    if (embed) return;
+    let cancelled = false;
+    setIsPreviewing(true);
+    const timer = setTimeout(async () => {
+      try {
+        const sourceCanvas = await latestExportCanvasFor.current(previewSourceId, exportProfile);
+        const result = sourceCanvas ? await getOptimizedDataUrl(sourceCanvas, exportProfile) : null;
+        if (!cancelled) setExportPreview(result);
+      } catch {
+        if (!cancelled) setExportPreview(null);
+      } finally {
+        if (!cancelled) setIsPreviewing(false);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [previewSourceId, exportProfile, strokes, straighten, typedName, color, typedWeight, cleanedUpload, fontSettings, customFonts, typedContent, blockOptions]);
 
-    ctx.fillStyle = color;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.font = `${160 * scale}px ${font}`;
+  // Restore the fonts the user added on earlier visits
+  useEffect(() => {
+    let cancelled = false;
+    listCustomFonts()
+      .then(async stored => {
+        const usable: TypedFont[] = [];
+        for (const font of stored) {
+          try {
+            await registerCustomFont(font);
+            usable.push(storedFontToTypedFont(font));
+          } catch (e) {
+            console.error(`Custom font "${font.name}" could not be loaded:`, e);
+          }
+        }
+        if (!cancelled) setCustomFonts(usable);
+      })
+      .catch(e => console.error("Custom fonts unavailable:", e));
+    return () => { cancelled = true; };
+  }, []);
 
-    if (typedWeight > 0) {
-      ctx.strokeStyle = color;
-      ctx.lineWidth = typedWeight * scale * 2;
-      ctx.lineJoin = 'round';
-      ctx.lineCap = 'round';
-      ctx.strokeText(name || 'Signature', tempCanvas.width / 2, tempCanvas.height / 2);
+  // Re-render when web fonts finish loading so the previews' loading state stays current
+  useEffect(() => {
+    const handleFontsChanged = () => setFontsVersion(v => v + 1);
+    document.fonts.addEventListener('loadingdone', handleFontsChanged);
+    document.fonts.addEventListener('loadingerror', handleFontsChanged);
+    return () => {
+      document.fonts.removeEventListener('loadingdone', handleFontsChanged);
+      document.fonts.removeEventListener('loadingerror', handleFontsChanged);
+    };
+  }, []);
+
+  const isFontReady = (font: TypedFont) => document.fonts.check(`48px ${font.family}`, typedText);
+
+  const addFont = async (file: File) => {
+    try {
+      const stored = await addCustomFont(file, typedFonts.map(f => f.name));
+      setCustomFonts(prev => [...prev, storedFontToTypedFont(stored)]);
+      setSelectedFontName(stored.name);
+      setFontError(null);
+    } catch (e) {
+      console.error("Adding font failed:", e);
+      setFontError(e instanceof Error ? e.message : 'The font could not be added.');
+    }
+  };
+
+  const removeFont = async (font: TypedFont) => {
+    if (!font.customId || !window.confirm(`Remove the font "${font.name}"?`)) return;
+    try {
+      await deleteCustomFont(font.customId);
+    } catch (e) {
+      console.error("Removing font failed:", e);
+      setFontError(`The font "${font.name}" could not be removed.`);
+      return;
+    }
+    setCustomFonts(prev => prev.filter(f => f.customId !== font.customId));
+    if (selectedFontName === font.name) setSelectedFontName(BUILT_IN_FONTS[0].name);
+    setFontError(null);
+  };
+
+  // Re-run the photo cleanup when a new photo arrives or the sensitivity changes
+  useEffect(() => {
+    if (!uploadFile) return;
+    let cancelled = false;
+    setIsCleaning(true);
+    const timer = setTimeout(async () => {
+      try {
+        const cleaned = await cleanupSignaturePhoto(uploadFile, { sensitivity: uploadSensitivity });
+        if (cancelled) return;
+        setCleanedUpload(cleaned);
+        setUploadError(cleaned.bounds ? null : 'No ink was found in this photo. Try a higher sensitivity.');
+      } catch (e) {
+        console.error("Photo cleanup failed:", e);
+        if (!cancelled) setUploadError('This image could not be read.');
+      } finally {
+        if (!cancelled) setIsCleaning(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [uploadFile, uploadSensitivity]);
+
+  const uploadPreview = useMemo(
+    () => (cleanedUpload ? renderCleanedSignature(cleanedUpload, color, 12)?.toDataURL('image/png') : undefined),
+    [cleanedUpload, color]
+  );
+
+  const downloadStrokeEvidence = async () => {
+    const evidence = await buildStrokeEvidence(strokes, getPadSize());
+    if (!evidence) return;
+    const link = document.createElement('a');
+    link.download = 'signature-strokes.json';
+    link.href = `data:application/json;charset=utf-8,${encodeURIComponent(JSON.stringify(evidence, null, 2))}`;
+    link.click();
+    announce('Downloaded signature-strokes.json.');
+  };
+
+  const saveSvg = (svg: string, fileName: string, sourceId: string) => {
+    const size = /<svg[^>]* width="([\d.]+)" height="([\d.]+)"/.exec(svg);
+    return saveExport({
+      fileName,
+      mimeType: 'image/svg+xml',
+      data: new TextEncoder().encode(svg),
+      width: size ? parseFloat(size[1]) : 0,
+      height: size ? parseFloat(size[2]) : 0,
+      sourceId,
+      profile: exportProfile,
+      previewUrl: svgToDataUrl(svg)
+    });
+  };
+
+  const downloadAsSvg = async () => {
+    // The vector export follows the active profile's crop margin
+    const svg = drawnSignatureToSvg(strokes, exportProfile, { pad: getPadSize(), straighten });
+    if (!svg) return;
+    try {
+      await saveSvg(svg, 'signature.svg', 'drawn');
+      announce('Downloaded signature.svg.');
+    } catch (e) {
+      console.error("SVG export failed:", e);
+      announce('SVG export failed.');
     }
-    ctx.fillText(name || 'Signature', tempCanvas.width / 2, tempCanvas.height / 2);
+  };
 
+  const exportTypedSvg = async (font: TypedFont) => {
+    if (isOptimizing) return;
+    setIsOptimizing(true);
     try {
-      const optimizedUrl = await getOptimizedDataUrl(tempCanvas, format, format === 'jpg');
-      const link = document.createElement('a');
-      link.download = `typed-signature.${format}`;
-      link.href = optimizedUrl;
-      link.click();
+      const outlines = await loadFontOutlines(font);
+      const svg = typedTextToSvg(typedText, outlines, color, typedWeight, settingsFor(font.name));
+      await saveSvg(svg, 'typed-signature.svg', `typed:${font.name}`);
+      setFontError(null);
+      announce('Downloaded typed-signature.svg.');
+    } catch (e) {
+      console.error("SVG export failed:", e);
+      const message = e instanceof Error ? e.message : 'The SVG could not be created.';
+      setFontError(message);
+      announce(`SVG export failed. ${message}`);
     } finally {
       setIsOptimizing(false);
     }
   };
 
+  const pdfSources: SignatureSource[] = [
+    { id: 'drawn', label: 'Drawn signature', render: async () => renderStrokesCropped(prepareExportStrokes(strokes, straighten), 3) },
+    ...typedFonts.map(font => ({
+      id: `typed:${font.name}`,
+      label: `Typed: ${font.name}`,
+      render: async () => {
+        const text = typedText;
+        const settings = settingsFor(font.name);
+        await ensureFontLoaded(font, text);
+        return renderTypedCropped(text, font.family, color, typedWeight, 160 * settings.scale, 8, settings.letterSpacing);
+      }
+    })),
+    ...(cleanedUpload ? [{ id: 'uploaded', label: 'Uploaded signature', render: async () => renderCleanedSignature(cleanedUpload, color, 8) }] : [])
+  ];
+
+  const previewSources = pdfSources.map(({ id, label }) => ({ id, label }));
+
+  const savePdf = async (pdf: SignedPdf) => {
+    await saveExport({ ...pdf, mimeType: 'application/pdf', profile: null });
+    announce(`Downloaded ${pdf.fileName}.`);
+  };
+
+  const renderPdfInitials = async (text: string) => {
+    const font = typedFonts.find(f => f.name === selectedFontName) ?? typedFonts[0];
+    await ensureFontLoaded(font, text);
+    return renderTypedCropped(text, font.family, color, typedWeight, 160, 8, settingsFor(font.name).letterSpacing);
+  };
+
+  const captureLibraryEntry = async (kind: LibraryKind, method: LibraryMethod): Promise<CapturedEntry | null> => {
+    if (method === 'drawn') {
+      const rendering = renderStrokesCropped(strokes, 1, 4);
+      if (!rendering) return null;
+      return { kind, method, strokes, color, penWidth, thumbnail: makeThumbnail(rendering) };
+    }
+    if (!typedName.trim()) return null;
+    const font = typedFonts.find(f => f.name === selectedFontName) ?? typedFonts[0];
+    const initialsStyle = typedContent === 'name' ? 'plain' : typedContent;
+    const text = kind === 'initials' ? formatInitials(typedName, initialsStyle) : typedName.trim();
+    await ensureFontLoaded(font, text);
+    const rendering = renderTypedCropped(text, font.family, color, typedWeight, 64, 8, settingsFor(font.name).letterSpacing);
+    return {
+      kind,
+      method,
+      typed: kind === 'initials'
+        ? { text, fontName: font.name, weight: typedWeight, sourceName: typedName.trim(), initialsStyle }
+        : { text, fontName: font.name, weight: typedWeight },
+      color,
+      penWidth,
+      thumbnail: makeThumbnail(rendering)
+    };
+  };
+
+  const applyLibraryEntry = (entry: LibraryEntry) => {
+    setColor(entry.color);
+    setPenWidth(entry.penWidth);
+    if (entry.method === 'drawn' && entry.strokes) {
+      const loaded = entry.strokes;
+      commit(() => loaded);
+      setSelectedStrokeId(null);
+    } else if (entry.typed) {
+      if (entry.kind === 'signature') {
+        setTypedName(entry.typed.text);
+        setTypedContent('name');
+      } else if (entry.typed.sourceName) {
+        // Initials keep the signer's name, which block text and receipts are built from
+        setTypedName(entry.typed.sourceName);
+        setTypedContent(entry.typed.initialsStyle ?? 'plain');
+      }
+      setTypedWeight(entry.typed.weight);
+      // Custom fonts may still be loading, so the name is kept even if it is not listed yet
+      setSelectedFontName(entry.typed.fontName);
+    }
+    setAnalysis(null);
+    setAnalysisError(null);
+  };
+
+  const analysisProvider = ANALYSIS_PROVIDERS.find(p => p.id === analysisProviderId) ?? ANALYSIS_PROVIDERS[0];
+  // Network engines are switched off while offline; drawing and exports never need the network
+  const analysisOffline = analysisProvider.requiresNetwork && !online;
+
+  const changeAnalysisProvider = (id: string) => {
+    setAnalysisProviderId(id);
+    saveSelectedProviderId(id);
+    setAnalysis(null);
+    setAnalysisError(null);
+  };
+
   const analyzeSignature = async () => {
-    if (!canvasRef.current || isAnalyzing) return;
+    if (isAnalyzing || strokes.length === 0 || analysisOffline) return;
     setIsAnalyzing(true);
-    setAiAnalysis(null);
+    setAnalysis(null);
+    setAnalysisError(null);
+    announce('Analyzing signature...');
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const base64Data = canvasRef.current.toDataURL('image/png').split(',')[1];
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: {
-          parts: [
-            { inlineData: { data: base64Data, mimeType: 'image/png' } },
-            { text: "Briefly analyze the visual style of this digital signature in 2 sentences. Is it professional, creative, messy, or bold? Give a one-line tip for professional signing." }
-          ]
-        }
+      const pad = getPadSize();
+      const result = await analysisProvider.analyze({
+        strokes,
+        width: pad.width,
+        height: pad.height,
+        imagePng: () => renderStrokesFull(strokes, pad.width, pad.height, 1, '#FFFFFF').toDataURL('image/png').split(',')[1]
       });
-      setAiAnalysis(response.text || "Analysis unavailable.");
+      setAnalysis(result);
+      announce(`Analysis complete. Score ${result.overall} out of 100. ${result.summary}`);
     } catch (err) {
-      setAiAnalysis("Could not analyze signature at this time.");
+      console.error("Analysis failed:", err);
+      const message = err instanceof Error ? err.message : 'Could not analyze signature at this time.';
+      setAnalysisError(message);
+      announce(`Analysis failed. ${message}`);
     } finally {
       setIsAnalyzing(false);
     }
   };
 
+  const selectedFont = typedFonts.find(f => f.name === selectedFontName) ?? typedFonts[0];
+
+  const canFinishEmbed = embedMode === 'draw'
+    ? strokes.length > 0
+    : embedMode === 'type' ? typedName.trim() !== '' : !!cleanedUpload?.bounds;
+
+  /**
+   * Encodes the active mode's signature with the embed profile and hands it to the host. The
+   * title and date block is left out; the host decides how the signature is presented.
+   */
+  const finishEmbed = async () => {
+    if (!embed || isOptimizing || !canFinishEmbed) return;
+    const sourceId = embedMode === 'draw' ? 'drawn' : embedMode === 'upload' ? 'uploaded' : `typed:${selectedFont.name}`;
+    setIsOptimizing(true);
+    setEmbedError(null);
+    try {
+      const canvas = await exportCanvasFor(sourceId, exportProfile);
+      if (!canvas) return;
+      const result = await getOptimizedDataUrl(canvas, exportProfile);
+      onEmbedEvent?.({
+        type: 'signed',
+        blob: new Blob([dataUrlToBytes(result.dataUrl)], { type: result.mimeType }),
+        dataUrl: result.dataUrl,
+        metadata: {
+          method: embedMode === 'draw' ? 'drawn' : embedMode === 'upload' ? 'uploaded' : 'typed',
+          signer: typedName.trim(),
+          font: embedMode === 'type' ? selectedFont.name : undefined,
+          mimeType: result.mimeType,
+          width: result.width,
+          height: result.height,
+          bytes: result.bytes,
+          withinLimit: result.withinLimit,
+          profileId: exportProfile.id,
+          signedAt: new Date().toISOString()
+        }
+      });
+      announce('Signature submitted.');
+    } catch (e) {
+      console.error("Embedded signing failed:", e);
+      const message = e instanceof Error ? e.message : 'The signature could not be created.';
+      setEmbedError(message);
+      announce(message);
+    } finally {
+      setIsOptimizing(false);
+    }
+  };
+
+  const clearEmbedMode = () => {
+    // clearCanvas reports the drawn case itself
+    if (embedMode === 'draw') return clearCanvas();
+    if (embedMode === 'type') {
+      setTypedName('');
+    } else {
+      setUploadFile(null);
+      setCleanedUpload(null);
+      setUploadError(null);
+    }
+    onEmbedEvent?.({ type: 'cleared', mode: embedMode });
+  };
+
+  const showMode = (mode: EmbedMode) => !embed || embedMode === mode;
+
+  /**
+   * The keyboard and screen-reader path: typing is the alternative to drawing on the canvas
+   */
+  const typeInstead = () => {
+    if (embed) {
+      if (!embed.modes.includes('type')) return;
+      setEmbedMode('type');
+    }
+    // Let an embed mode switch render the typed card first
+    setTimeout(() => {
+      const input = document.getElementById('typed-name');
+      input?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      input?.focus({ preventScroll: true });
+    });
+  };
+
   return (
-    <div id="signature-tool" className="max-w-5xl mx-auto p-4 md:p-8 space-y-12">
-      <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100 transition-all hover:shadow-indigo-100/50">
+    <div id="signature-tool" className={embed ? 'max-w-5xl mx-auto p-2 md:p-4 space-y-4' : 'max-w-5xl mx-auto p-4 md:p-8 space-y-12'}>
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+        <span key={announcement.id}>{announcement.text}</span>
+      </div>
+
+      {embed && embed.modes.length > 1 && (
+        <div className="flex justify-center gap-2" role="tablist" aria-label="Signing method">
+          {embed.modes.map(mode => (
+            <button key={mode} role="tab" aria-selected={embedMode === mode} onClick={() => { setEmbedMode(mode); setEmbedError(null); }} className={`px-5 py-2 rounded-xl text-sm font-bold transition-all ${embedMode === mode ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-200' : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50'}`}>
+              {EMBED_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Hidden rather than unmounted in other embed modes so the canvas keeps its size and ink */}
+      <div className={`bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100 transition-all hover:shadow-indigo-100/50 ${showMode('draw') ? '' : 'hidden'}`}>
         <div className="p-1 bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500"></div>
         <div className="p-6 md:p-10">
           <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 mb-8">
@@ -269,20 +945,34 @@ const SignaturePad = () => {
               <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
                 <PenTool className="text-indigo-600" /> Draw Your Signature
               </h2>
-              <p className="text-slate-500 mt-1">Use your mouse or touch screen to sign below</p>
+              <p className="text-slate-500 mt-1">Use your mouse, touch screen or stylus to sign below</p>
+              {(!embed || embed.modes.includes('type')) && (
+                <button onClick={typeInstead} className="mt-2 flex items-center gap-2 text-sm font-bold text-indigo-600 hover:text-indigo-800 underline underline-offset-4"><Keyboard size={16} /> Type your signature instead</button>
+              )}
             </div>
             
             <div className="flex flex-wrap items-center gap-4 bg-slate-50 p-3 rounded-2xl border border-slate-100">
               <div className="flex items-center gap-2 pr-4 border-r border-slate-200">
                 <span className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Ink Color</span>
-                <button onClick={() => setColor('#000000')} className={`w-8 h-8 rounded-full border-2 transition-all ${color === '#000000' ? 'border-indigo-600 scale-110 shadow-lg' : 'border-white'}`} style={{ backgroundColor: '#000000' }} aria-label="Black Ink" />
-                <button onClick={() => setColor('#0000FF')} className={`w-8 h-8 rounded-full border-2 transition-all ${color === '#0000FF' ? 'border-indigo-600 scale-110 shadow-lg' : 'border-white'}`} style={{ backgroundColor: '#0000FF' }} aria-label="Blue Ink" />
+                {inkColors.map(ink => (
+                  <button key={ink} onClick={() => changeColor(ink)} className={`w-8 h-8 rounded-full border-2 transition-all ${color === ink ? 'border-indigo-600 scale-110 shadow-lg' : 'border-white'}`} style={{ backgroundColor: ink }} title={`${INK_NAMES[ink.toUpperCase()] ?? ink} ink`} aria-label={`${INK_NAMES[ink.toUpperCase()] ?? ink} Ink`} aria-pressed={color === ink} />
+                ))}
               </div>
               <div className="flex items-center gap-3 pr-4 border-r border-slate-200">
                 <div className="flex items-center gap-2">
                   <span className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Size</span>
-                  <input type="range" min="1" max="10" value={penWidth} onChange={(e) => setPenWidth(parseInt(e.target.value))} className="w-24 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                  <input type="range" min="1" max="10" value={penWidth} aria-label="Pen size" onChange={(e) => changePenWidth(parseInt(e.target.value))} onPointerUp={endMerge} onKeyUp={endMerge} onBlur={endMerge} className="w-24 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
                 </div>
+                <button onClick={() => restyleStrokes({ color, penWidth }, false)} disabled={strokes.length === 0} title="Apply current ink to all strokes" className="p-2 text-slate-500 hover:text-indigo-600 transition-colors disabled:opacity-30" aria-label="Apply ink to all strokes"><PaintBucket size={16} /></button>
+              </div>
+              <div className="flex items-center gap-1 pr-4 border-r border-slate-200">
+                <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="p-2 text-slate-500 hover:text-indigo-600 transition-colors disabled:opacity-30" aria-label="Undo"><Undo2 size={16} /></button>
+                <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="p-2 text-slate-500 hover:text-indigo-600 transition-colors disabled:opacity-30" aria-label="Redo"><Redo2 size={16} /></button>
+                <button onClick={() => { setTool(tool === 'select' ? 'pen' : 'select'); setSelectedStrokeId(null); }} title="Select a stroke" className={`p-2 rounded-lg transition-colors ${tool === 'select' ? 'bg-indigo-100 text-indigo-700' : 'text-slate-500 hover:text-indigo-600'}`} aria-label="Select stroke" aria-pressed={tool === 'select'}><MousePointer2 size={16} /></button>
+                <button onClick={() => { setSelectedStrokeId(null); setIsReplaying(!isReplaying); }} disabled={strokes.length === 0} title={isReplaying ? 'Stop replay' : 'Replay signature'} className="p-2 text-slate-500 hover:text-indigo-600 transition-colors disabled:opacity-30" aria-label={isReplaying ? 'Stop replay' : 'Replay signature'}>{isReplaying ? <Square size={16} /> : <Play size={16} />}</button>
+                {selectedStrokeId && (
+                  <button onClick={deleteSelectedStroke} title="Delete stroke (Del)" className="flex items-center gap-1 px-2 py-2 text-xs font-bold text-red-600 hover:text-red-700 transition-colors"><Trash2 size={14} /> Stroke</button>
+                )}
               </div>
               <button onClick={clearCanvas} className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-slate-600 hover:text-red-600 transition-colors"><Trash2 size={16} /> Clear</button>
             </div>
@@ -292,100 +982,277 @@ const SignaturePad = () => {
             <div className="relative group p-4 bg-slate-100 rounded-3xl shadow-inner">
               <canvas
                 ref={canvasRef}
-                onMouseDown={startDrawing}
-                onMouseMove={draw}
-                onMouseUp={() => (isDrawing.current = false)}
-                onMouseLeave={() => (isDrawing.current = false)}
-                onTouchStart={startDrawing}
-                onTouchMove={draw}
-                onTouchEnd={() => (isDrawing.current = false)}
+                onPointerDown={startDrawing}
+                onPointerMove={draw}
+                onPointerUp={stopDrawing}
+                onPointerCancel={stopDrawing}
+                style={tool === 'select' ? { cursor: 'pointer' } : undefined}
+                role="img"
+                aria-label={strokes.length === 0 ? 'Signature drawing area, empty' : `Signature drawing area, ${strokes.length} ${strokes.length === 1 ? 'stroke' : 'strokes'} drawn`}
                 className="signature-canvas bg-white rounded-2xl shadow-xl border border-slate-200 ring-1 ring-slate-900/5"
               />
             </div>
           </div>
 
-          <div className="mt-10 flex flex-col md:flex-row items-center justify-between gap-6 pt-8 border-t border-slate-100">
-             <div className="flex items-center gap-4 w-full md:w-auto">
-                <button onClick={analyzeSignature} disabled={isAnalyzing} className="flex items-center justify-center gap-2 px-6 py-4 bg-indigo-50 text-indigo-700 rounded-xl font-bold hover:bg-indigo-100 transition-all disabled:opacity-50 border border-indigo-100 shadow-sm">
-                  <Sparkles size={20} className={isAnalyzing ? 'animate-pulse' : ''} />
-                  {isAnalyzing ? 'Analyzing...' : 'AI Analysis'}
-                </button>
-             </div>
-             <div className="flex flex-wrap justify-center gap-3 w-full md:w-auto">
-                <div className="flex flex-col items-center gap-1 group">
-                   <button onClick={() => downloadAsImage('png')} disabled={isOptimizing} className="flex items-center justify-center gap-2 px-6 py-4 bg-white text-slate-700 border border-slate-200 rounded-xl font-bold hover:bg-slate-50 transition-all shadow-sm disabled:opacity-50">
-                     <Download size={20} /> PNG
-                   </button>
-                   <span className="text-[10px] text-slate-400 font-bold uppercase opacity-0 group-hover:opacity-100 transition-opacity">Under 25KB</span>
-                </div>
-                <div className="flex flex-col items-center gap-1 group">
-                   <button onClick={() => downloadAsImage('jpg')} disabled={isOptimizing} className="flex items-center justify-center gap-2 px-6 py-4 btn-gradient-indigo text-white rounded-xl font-bold transition-all shadow-xl shadow-indigo-200 disabled:opacity-50">
-                     <Download size={20} /> JPG
-                   </button>
-                   <span className="text-[10px] text-slate-400 font-bold uppercase opacity-0 group-hover:opacity-100 transition-opacity">Under 25KB</span>
-                </div>
-             </div>
-          </div>
+          {!embed && (
+            <>
+              <div className="mt-10 flex flex-col md:flex-row items-center justify-between gap-6 pt-8 border-t border-slate-100">
+                 <div className="flex items-center gap-4 w-full md:w-auto">
+                    <div className="flex items-center rounded-xl border border-indigo-100 shadow-sm overflow-hidden">
+                      <button onClick={analyzeSignature} disabled={isAnalyzing || strokes.length === 0 || analysisOffline} title={analysisOffline ? `${analysisProvider.label} needs a connection` : undefined} className="flex items-center justify-center gap-2 px-6 py-4 bg-indigo-50 text-indigo-700 font-bold hover:bg-indigo-100 transition-all disabled:opacity-50">
+                        <Sparkles size={20} className={isAnalyzing ? 'animate-pulse' : ''} />
+                        {isAnalyzing ? 'Analyzing...' : 'Analyze'}
+                      </button>
+                      <select value={analysisProvider.id} onChange={(e) => changeAnalysisProvider(e.target.value)} disabled={isAnalyzing} className="self-stretch bg-white border-l border-indigo-100 px-2 text-xs font-bold text-slate-600" aria-label="Analysis engine">
+                        {ANALYSIS_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                      </select>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer select-none" title="Level the signature along its baseline before exporting">
+                      <input type="checkbox" checked={straighten} onChange={(e) => setStraighten(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                      Straighten
+                    </label>
+                 </div>
+                 <div className="flex flex-wrap justify-center gap-3 w-full md:w-auto">
+                    <div className="flex flex-col items-center gap-1 group">
+                       <button onClick={() => downloadWithProfile('drawn', 'signature')} disabled={isOptimizing || strokes.length === 0} className="flex items-center justify-center gap-2 px-6 py-4 btn-gradient-indigo text-white rounded-xl font-bold transition-all shadow-xl shadow-indigo-200 disabled:opacity-50">
+                         <Download size={20} /> {exportProfile.format.toUpperCase()}
+                       </button>
+                       <span className="text-[10px] text-slate-400 font-bold uppercase opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">Under {formatBytes(exportProfile.maxBytes)}</span>
+                    </div>
+                    <div className="flex flex-col items-center gap-1 group">
+                       <button onClick={downloadAsSvg} disabled={strokes.length === 0} className="flex items-center justify-center gap-2 px-6 py-4 bg-white text-slate-700 border border-slate-200 rounded-xl font-bold hover:bg-slate-50 transition-all shadow-sm disabled:opacity-50">
+                         <Download size={20} /> SVG
+                       </button>
+                       <span className="text-[10px] text-slate-400 font-bold uppercase opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">Vector</span>
+                    </div>
+                    <div className="flex flex-col items-center gap-1 group">
+                       <button onClick={downloadStrokeEvidence} disabled={strokes.length === 0} className="flex items-center justify-center gap-2 px-6 py-4 bg-white text-slate-700 border border-slate-200 rounded-xl font-bold hover:bg-slate-50 transition-all shadow-sm disabled:opacity-50">
+                         <FileJson size={20} /> Strokes
+                       </button>
+                       <span className="text-[10px] text-slate-400 font-bold uppercase opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">Timing + SHA-256</span>
+                    </div>
+                 </div>
+              </div>
 
-          {aiAnalysis && (
-            <div className="mt-8 p-6 bg-indigo-50 rounded-2xl border border-indigo-100 animate-in fade-in slide-in-from-bottom-4 duration-500">
-              <div className="flex items-start gap-3">
-                <Sparkles className="text-indigo-600 mt-1 shrink-0" size={20} />
-                <div>
-                  <h4 className="font-bold text-indigo-900 mb-1">AI Signature Insight</h4>
-                  <p className="text-indigo-800 leading-relaxed">{aiAnalysis}</p>
+              {analysisOffline && (
+                <p className="mt-8 flex items-center gap-2 text-sm font-semibold text-amber-700"><WifiOff size={16} /> You're offline, so {analysisProvider.label} analysis is unavailable. The built-in engine works without a connection.</p>
+              )}
+
+              {analysisError && (
+                <p className="mt-8 text-sm font-semibold text-red-600">{analysisError}</p>
+              )}
+
+              {analysis && (
+                <div className="mt-8 p-6 bg-indigo-50 rounded-2xl border border-indigo-100 animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-5">
+                  <div className="flex items-start gap-3">
+                    <Sparkles className="text-indigo-600 mt-1 shrink-0" size={20} />
+                    <div className="flex-1">
+                      <div className="flex items-baseline justify-between gap-4">
+                        <h4 className="font-bold text-indigo-900 mb-1">Signature Insight</h4>
+                        <span className="text-2xl font-extrabold text-indigo-700">{analysis.overall}<span className="text-sm font-bold text-indigo-400">/100</span></span>
+                      </div>
+                      <p className="text-indigo-800 leading-relaxed">{analysis.summary}</p>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {analysis.scores.map(s => (
+                      <div key={s.feature} className="bg-white rounded-xl border border-indigo-100 p-4 space-y-2">
+                        <div className="flex items-baseline justify-between gap-2">
+                          <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{s.label}</span>
+                          <span className="text-sm font-bold text-slate-700">{s.score}</span>
+                        </div>
+                        <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                          <div className={`h-full rounded-full ${s.score >= 70 ? 'bg-emerald-500' : s.score >= 40 ? 'bg-amber-500' : 'bg-red-500'}`} style={{ width: `${s.score}%` }} />
+                        </div>
+                        <div className="text-sm font-semibold text-slate-700">{s.value}</div>
+                        <p className="text-xs text-slate-500">{s.note}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {analysis.tips.length > 0 && (
+                    <ul className="list-disc pl-5 space-y-1 text-sm text-indigo-800">
+                      {analysis.tips.map(tip => <li key={tip}>{tip}</li>)}
+                    </ul>
+                  )}
                 </div>
-              </div>
-            </div>
+              )}
+            </>
           )}
         </div>
       </div>
 
-      <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
-        <div className="p-6 md:p-10 space-y-10">
-          <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
-            <div>
-              <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-3"><TypeIcon className="text-indigo-600" /> Type Your Signature</h2>
-              <p className="text-slate-500 mt-1">Convert your typed name into beautiful handwriting styles</p>
+      {showMode('type') && (
+        <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
+          <div className="p-6 md:p-10 space-y-10">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+              <div>
+                <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-3"><TypeIcon className="text-indigo-600" /> Type Your Signature</h2>
+                <p className="text-slate-500 mt-1">Convert your typed name into beautiful handwriting styles</p>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-4 bg-slate-50 px-4 py-3 rounded-2xl border border-slate-100">
+                   <div className="flex items-center gap-3">
+                      <Sliders size={18} className="text-indigo-600" />
+                      <span className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Weight</span>
+                      <input type="range" min="0" max="5" step="0.5" value={typedWeight} aria-label="Typed signature weight" onChange={(e) => setTypedWeight(parseFloat(e.target.value))} className="w-24 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                   </div>
+                </div>
+                <select value={typedContent} onChange={(e) => setTypedContent(e.target.value as 'name' | InitialsStyle)} className="bg-slate-50 border border-slate-100 rounded-2xl px-3 py-3 text-sm font-bold text-slate-600" aria-label="Typed text">
+                  <option value="name">Full name</option>
+                  <option value="dotted">Initials (J.D.)</option>
+                  <option value="spaced">Initials (J. D.)</option>
+                  <option value="plain">Initials (JD)</option>
+                </select>
+                <label className="flex items-center justify-center gap-2 px-4 py-3 bg-indigo-50 text-indigo-700 rounded-xl text-sm font-bold hover:bg-indigo-100 transition-all border border-indigo-100 cursor-pointer focus-within:ring-2 focus-within:ring-indigo-400" title="Add a TTF, OTF, WOFF or WOFF2 font. It is stored on this device only.">
+                  <FilePlus2 size={18} /> Add Font
+                  <input type="file" accept=".ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2" className="sr-only" onChange={(e) => { const file = e.target.files?.[0]; if (file) addFont(file); e.target.value = ''; }} />
+                </label>
+              </div>
             </div>
-            <div className="flex items-center gap-4 bg-slate-50 px-4 py-3 rounded-2xl border border-slate-100">
-               <div className="flex items-center gap-3">
-                  <Sliders size={18} className="text-indigo-600" />
-                  <span className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Weight</span>
-                  <input type="range" min="0" max="5" step="0.5" value={typedWeight} onChange={(e) => setTypedWeight(parseFloat(e.target.value))} className="w-24 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
-               </div>
+            <div className="flex flex-col lg:flex-row lg:items-center gap-6">
+              <div className="max-w-xl flex-1">
+                <input id="typed-name" type="text" value={typedName} onChange={(e) => setTypedName(e.target.value)} aria-label="Your name" placeholder="Jonathan Doe" className="w-full px-8 py-5 text-2xl border-2 border-slate-100 bg-slate-50 rounded-2xl focus:ring-4 focus:ring-indigo-100 focus:border-indigo-600 focus:bg-white outline-none transition-all placeholder:text-slate-300 shadow-inner" />
+              </div>
+              <div className="flex flex-wrap items-center gap-4 bg-slate-50 px-4 py-3 rounded-2xl border border-slate-100">
+                <span className="text-xs font-bold text-slate-500 truncate max-w-[160px]" title={selectedFontName}>{selectedFontName}</span>
+                <label className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Size</span>
+                  <input type="range" min="0.6" max="1.4" step="0.05" value={settingsFor(selectedFontName).scale} onChange={(e) => updateFontSettings(selectedFontName, { scale: parseFloat(e.target.value) })} className="w-20 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Spacing</span>
+                  <input type="range" min="-0.05" max="0.3" step="0.01" value={settingsFor(selectedFontName).letterSpacing} onChange={(e) => updateFontSettings(selectedFontName, { letterSpacing: parseFloat(e.target.value) })} className="w-20 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
+                </label>
+                <button onClick={() => updateFontSettings(selectedFontName, DEFAULT_FONT_SETTINGS)} title="Reset size and spacing" className="p-1 text-slate-500 hover:text-indigo-600 transition-colors" aria-label="Reset size and spacing"><RotateCcw size={14} /></button>
+              </div>
+            </div>
+            {fontError && <p className="text-sm font-semibold text-red-600">{fontError}</p>}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8" role="group" aria-label="Signature fonts">
+              {typedFonts.map(font => {
+                const settings = settingsFor(font.name);
+                return (
+                  <div key={font.customId ?? font.name} onClick={() => setSelectedFontName(font.name)} className={`relative bg-slate-50 rounded-3xl border p-8 flex flex-col items-center justify-center min-h-[240px] transition-all hover:bg-white hover:border-indigo-200 hover:shadow-xl hover:-translate-y-1 cursor-pointer ${selectedFontName === font.name ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-slate-100'}`}>
+                    <div className="absolute top-4 left-6 right-16 text-[10px] font-bold text-slate-500 uppercase tracking-widest truncate">
+                      {font.name}{font.customId ? ' · Custom' : ''}{isFontReady(font) ? '' : ' · Loading...'}
+                    </div>
+                    {font.customId && (
+                      <button onClick={(e) => { e.stopPropagation(); removeFont(font); }} title="Remove font" className="absolute top-3 right-11 p-1 text-slate-300 hover:text-red-600 transition-colors" aria-label={`Remove font ${font.name}`}><Trash2 size={14} /></button>
+                    )}
+                    {selectedFontName === font.name && <CheckCircle2 size={18} className="absolute top-4 right-5 text-indigo-600" aria-label="Selected font" />}
+                    <button type="button" onClick={() => setSelectedFontName(font.name)} aria-pressed={selectedFontName === font.name} aria-label={`Use the ${font.name} font`} className={`text-4xl md:text-5xl py-8 px-4 w-full break-words text-center rounded-2xl focus:outline-none focus-visible:ring-4 focus-visible:ring-indigo-300 ${font.class ?? ''}`} style={{ fontFamily: font.family, color: color, WebkitTextStroke: typedWeight > 0 ? `${typedWeight}px ${color}` : 'none' }}>
+                      <span style={{ fontSize: `${settings.scale}em`, letterSpacing: `${settings.letterSpacing}em` }}>{typedText}</span>
+                    </button>
+                    {!embed && (
+                      <div className="flex gap-2 w-full mt-auto pt-4">
+                        <button onClick={() => downloadWithProfile(`typed:${font.name}`, 'typed-signature')} aria-label={`Download ${font.name} signature as ${exportProfile.format.toUpperCase()}`} className="flex-1 bg-indigo-600 text-white text-xs font-bold py-3 rounded-xl hover:bg-indigo-700 flex items-center justify-center gap-2">{exportProfile.format.toUpperCase()}</button>
+                        <button onClick={() => exportTypedSvg(font)} disabled={!hasOutlines(font)} title={hasOutlines(font) ? undefined : 'WOFF2 fonts cannot be converted to SVG'} aria-label={`Download ${font.name} signature as SVG`} className="flex-1 bg-white border border-slate-200 text-slate-600 text-xs font-bold py-3 rounded-xl hover:bg-slate-50 flex items-center justify-center gap-2 disabled:opacity-40">SVG</button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
-          <div className="max-w-xl">
-            <input id="typed-name" type="text" value={typedName} onChange={(e) => setTypedName(e.target.value)} placeholder="Jonathan Doe" className="w-full px-8 py-5 text-2xl border-2 border-slate-100 bg-slate-50 rounded-2xl focus:ring-4 focus:ring-indigo-100 focus:border-indigo-600 focus:bg-white outline-none transition-all placeholder:text-slate-300 shadow-inner" />
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {typedFonts.map((font, idx) => (
-              <div key={idx} className="relative group bg-slate-50 rounded-3xl border border-slate-100 p-8 flex flex-col items-center justify-center min-h-[240px] transition-all hover:bg-white hover:border-indigo-200 hover:shadow-xl hover:-translate-y-1">
-                <div className="absolute top-4 left-6 text-[10px] font-bold text-slate-300 uppercase tracking-widest">{font.name}</div>
-                <div className={`text-4xl md:text-5xl py-8 px-4 w-full break-words text-center ${font.class}`} style={{ color: color, WebkitTextStroke: typedWeight > 0 ? `${typedWeight}px ${color}` : 'none' }}>{typedName || 'Signature'}</div>
-                <div className="flex gap-2 w-full mt-auto pt-4 opacity-0 group-hover:opacity-100 transition-all transform translate-y-2 group-hover:translate-y-0">
-                  <button onClick={() => exportTypedSignature(typedName, font.family, 'png')} className="flex-1 bg-white border border-slate-200 text-slate-600 text-xs font-bold py-3 rounded-xl hover:bg-slate-50 flex items-center justify-center gap-2">PNG</button>
-                  <button onClick={() => exportTypedSignature(typedName, font.family, 'jpg')} className="flex-1 bg-indigo-600 text-white text-xs font-bold py-3 rounded-xl hover:bg-indigo-700 flex items-center justify-center gap-2">JPG</button>
+        </div>
+      )}
+
+      {showMode('upload') && (
+        <div className="bg-white rounded-3xl shadow-2xl overflow-hidden border border-slate-100">
+          <div className="p-6 md:p-10 space-y-8">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+              <div>
+                <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-3"><ImageUp className="text-indigo-600" /> Upload Your Signature</h2>
+                <p className="text-slate-500 mt-1">Photograph or scan your signature on paper and we'll clean it up</p>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-3 bg-slate-50 px-4 py-3 rounded-2xl border border-slate-100">
+                  <Sliders size={18} className="text-indigo-600" />
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-tighter">Sensitivity</span>
+                  <input type="range" min="0" max="1" step="0.05" value={uploadSensitivity} aria-label="Cleanup sensitivity" onChange={(e) => setUploadSensitivity(parseFloat(e.target.value))} className="w-24 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600" />
                 </div>
+                <label className="flex items-center justify-center gap-2 px-6 py-4 bg-indigo-50 text-indigo-700 rounded-xl font-bold hover:bg-indigo-100 transition-all border border-indigo-100 shadow-sm cursor-pointer focus-within:ring-2 focus-within:ring-indigo-400">
+                  <ImageUp size={20} /> {uploadFile ? 'Replace Photo' : 'Choose Photo'}
+                  <input type="file" accept="image/*" capture="environment" className="sr-only" onChange={(e) => { const file = e.target.files?.[0]; if (file) setUploadFile(file); e.target.value = ''; }} />
+                </label>
               </div>
-            ))}
+            </div>
+
+            {uploadError && <p className="text-sm font-semibold text-red-600">{uploadError}</p>}
+
+            {uploadFile && (
+              <div className="flex flex-col md:flex-row items-center justify-between gap-6">
+                <div className="flex-1 w-full min-h-[160px] p-4 bg-white rounded-2xl border border-slate-200 shadow-inner flex items-center justify-center">
+                  {isCleaning ? (
+                    <span className="text-sm font-semibold text-slate-400">Cleaning up photo...</span>
+                  ) : uploadPreview ? (
+                    <img src={uploadPreview} alt="Cleaned signature" className="max-h-48 max-w-full object-contain" />
+                  ) : null}
+                </div>
+                {!embed && (
+                  <div className="flex flex-col items-center gap-1 group">
+                    <button onClick={() => downloadWithProfile('uploaded', 'uploaded-signature')} disabled={isOptimizing || isCleaning || !cleanedUpload?.bounds} className="flex items-center justify-center gap-2 px-6 py-4 btn-gradient-indigo text-white rounded-xl font-bold transition-all shadow-xl shadow-indigo-200 disabled:opacity-50">
+                      <Download size={20} /> {exportProfile.format.toUpperCase()}
+                    </button>
+                    <span className="text-[10px] text-slate-400 font-bold uppercase opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">Under {formatBytes(exportProfile.maxBytes)}</span>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
-      </div>
+      )}
+
+      {!embed && (
+        <>
+          <SignatureCompare strokes={strokes} libraryVersion={libraryVersion} />
+
+          <SignatureLibrary captureEntry={captureLibraryEntry} onApply={applyLibraryEntry} onChange={() => setLibraryVersion(v => v + 1)} />
+
+          <SignatureBlockPanel
+            options={blockOptions}
+            onChange={changeBlockOptions}
+            previewUrl={exportPreview?.dataUrl ?? null}
+            previewLabel={previewSources.find(s => s.id === previewSourceId)?.label ?? 'the signature'}
+          />
 
-      <div className="flex flex-col items-center justify-center gap-3 text-slate-400 py-8">
-        <div className="flex items-center gap-3">
-          <FileWarning size={16} className="text-indigo-400" />
-          <span className="text-sm font-bold uppercase tracking-widest text-indigo-400">Strict 25KB Output Limit</span>
+          <ExportProfilePanel
+            profile={exportProfile}
+            onProfileChange={setExportProfile}
+            preview={exportPreview}
+            isPreviewing={isPreviewing}
+            previewSources={previewSources}
+            previewSourceId={previewSourceId}
+            onPreviewSourceChange={setPreviewSourceId}
+          />
+
+          <SigningReceipts enabled={receiptsEnabled} onEnabledChange={setReceiptsEnabled} latest={latestReceipt} />
+
+          <PdfSigner sources={pdfSources} defaultInitials={formatInitials(typedName, 'dotted')} renderInitials={renderPdfInitials} onSave={savePdf} />
+        </>
+      )}
+
+      {embed && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-white rounded-2xl border border-slate-100 shadow-sm p-4">
+          <p className="text-sm font-semibold text-red-600">{embedError}</p>
+          <div className="flex flex-wrap justify-end gap-3">
+            <button onClick={() => onEmbedEvent?.({ type: 'cancelled' })} className="flex items-center gap-2 px-5 py-3 text-sm font-bold text-slate-600 hover:text-slate-900 transition-colors"><X size={16} /> Cancel</button>
+            <button onClick={clearEmbedMode} className="flex items-center gap-2 px-5 py-3 text-sm font-bold text-slate-600 hover:text-red-600 transition-colors"><Trash2 size={16} /> Clear</button>
+            <button onClick={finishEmbed} disabled={isOptimizing || !canFinishEmbed} className="flex items-center gap-2 px-6 py-3 btn-gradient-indigo text-white rounded-xl font-bold transition-all shadow-xl shadow-indigo-200 disabled:opacity-50">
+              <Check size={18} /> {isOptimizing ? 'Preparing...' : 'Use Signature'}
+            </button>
+          </div>
         </div>
-        <span className="text-sm font-medium">Files are automatically optimized to maintain compatibility with legacy document systems.</span>
-      </div>
+      )}
     </div>
   );
 };
 
-const Navbar = () => {
+interface NavbarProps {
+  highContrast: boolean;
+  onHighContrastChange: (enabled: boolean) => void;
+}
+
+const Navbar = ({ highContrast, onHighContrastChange }: NavbarProps) => {
   return (
     <nav className="glass sticky top-0 z-50 border-b border-slate-200/50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -395,7 +1262,9 @@ const Navbar = () => {
             <span className="text-2xl font-bold tracking-tight text-slate-900">Sign<span className="text-indigo-600">Ease</span></span>
           </div>
           <div className="flex items-center gap-6">
-            {/* Action buttons could go here */}
+            <button onClick={() => onHighContrastChange(!highContrast)} aria-pressed={highContrast} className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-slate-600 hover:text-indigo-600 transition-colors">
+              <Contrast size={18} /> High contrast
+            </button>
           </div>
         </div>
       </div>
@@ -435,10 +1304,86 @@ const Footer = () => (
   </footer>
 );
 
+/**
+ * The pad alone for `?embed` iframes, reporting to the host page with postMessage
+ */
+const EmbeddedPad = ({ config }: { config: EmbedConfig }) => {
+  useEffect(() => {
+    postToHost(config, { type: 'ready', modes: config.modes });
+  }, [config]);
+
+  if (!config.hostOrigin) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+        <div role="alert" className="max-w-md bg-white rounded-3xl shadow-2xl border border-slate-100 p-8 text-center space-y-3">
+          <h1 className="text-xl font-bold text-slate-900">Signature pad not configured</h1>
+          <p className="text-sm font-semibold text-red-600">The embedding page did not say where signatures should be sent. Add an <code>origin</code> parameter with its origin to the iframe URL.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <SignaturePad embed={config} onEmbedEvent={event => postToHost(config, event)} />
+    </div>
+  );
+};
+
+const embedConfig = isEmbedRequest(window.location.search) ? parseEmbedConfig(window.location.search, document.referrer) : null;
+
+/**
+ * Offline notice and the prompt shown when a new version of the app has been downloaded
+ */
+const AppStatus = ({ online, applyUpdate, onDismissUpdate }: { online: boolean; applyUpdate: (() => void) | null; onDismissUpdate: () => void }) => (
+  <>
+    {!online && (
+      <div role="status" className="bg-amber-50 border-b border-amber-200 text-amber-800 text-sm font-semibold px-4 py-2 flex items-center justify-center gap-2">
+        <WifiOff size={16} /> You're offline. Drawing, typing and exports keep working; online analysis is paused.
+      </div>
+    )}
+    {applyUpdate && (
+      <div role="alert" className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-slate-900 text-white rounded-2xl shadow-2xl px-5 py-4 flex items-center gap-4">
+        <span className="text-sm font-semibold">A new version of SignEase is available.</span>
+        <button onClick={applyUpdate} className="flex items-center gap-2 px-4 py-2 bg-indigo-500 hover:bg-indigo-400 rounded-xl text-sm font-bold transition-colors"><RefreshCw size={14} /> Reload</button>
+        <button onClick={onDismissUpdate} className="text-sm font-bold text-slate-300 hover:text-white transition-colors">Later</button>
+      </div>
+    )}
+  </>
+);
+
 const App = () => {
+  const [highContrast, setHighContrast] = useState(loadHighContrast);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const online = useOnlineStatus();
+
+  useEffect(() => {
+    applyHighContrast(highContrast);
+  }, [highContrast]);
+
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+  }, []);
+
+  const changeHighContrast = (enabled: boolean) => {
+    setHighContrast(enabled);
+    saveHighContrast(enabled);
+  };
+
+  const status = <AppStatus online={online} applyUpdate={applyUpdate} onDismissUpdate={() => setApplyUpdate(null)} />;
+
+  if (embedConfig) {
+    return (
+      <>
+        {status}
+        <EmbeddedPad config={embedConfig} />
+      </>
+    );
+  }
   return (
     <div className="min-h-screen bg-slate-50">
-      <Navbar />
+      <Navbar highContrast={highContrast} onHighContrastChange={changeHighContrast} />
+      {status}
       <Hero />
       <SignaturePad />
       <Footer />
@@ -0,0 +1,65 @@
+/**
+ * The app's IndexedDB database, shared by the signature library and custom fonts
+ */
+
+export type StoreName = 'library' | 'fonts';
+
+const DB_NAME = 'signease';
+const DB_VERSION = 2;
+const STORES: StoreName[] = ['library', 'fonts'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of STORES) {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. private mode quirks)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `run` in a transaction on one store and resolves once the transaction has committed. A
+ * failure in `run` aborts the transaction and is the one error the caller sees.
+ */
+export const withStore = async <T,>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(name, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  let result: T;
+  try {
+    result = await run(tx.objectStore(name));
+  } catch (e) {
+    // The transaction fails along with run; its own rejection would go unhandled
+    done.catch(() => {});
+    try {
+      tx.abort();
+    } catch {
+      // Already finished or aborted
+    }
+    throw e;
+  }
+  await done;
+  return result;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { RenderCanvas, asImageSource, createCanvas, get2d } from './canvasFactory';
+import { cleanupSignatureImage, renderCleanedSignature } from './photoCleanup';
+
+/**
+ * A 400x200 "photo": paper lit from the left with a shadow on the right, a thick ink stroke from
+ * (100, 100) to (300, 100) and a few single-pixel specks of dirt
+ */
+const photo = ({ ink = true } = {}) => {
+  const canvas = createCanvas(400, 200);
+  const ctx = get2d(canvas);
+  const light = ctx.createLinearGradient(0, 0, 400, 0);
+  light.addColorStop(0, '#f4f1ea');
+  light.addColorStop(1, '#8a877f');
+  ctx.fillStyle = light;
+  ctx.fillRect(0, 0, 400, 200);
+  if (ink) {
+    ctx.strokeStyle = '#1d2440';
+    ctx.lineWidth = 6;
+    ctx.lineCap = 'butt';
+    ctx.beginPath();
+    ctx.moveTo(100, 100);
+    ctx.lineTo(300, 100);
+    ctx.stroke();
+  }
+  ctx.fillStyle = '#333333';
+  for (const [x, y] of [[30, 30], [370, 170], [50, 180]]) ctx.fillRect(x, y, 1, 1);
+  return canvas;
+};
+
+const clean = (canvas: RenderCanvas, sensitivity = 0.5) => cleanupSignatureImage(asImageSource(canvas), canvas.width, canvas.height, { sensitivity });
+
+const pixel = (canvas: RenderCanvas, x: number, y: number) => Array.from(get2d(canvas).getImageData(x, y, 1, 1).data);
+
+describe('cleanupSignatureImage', () => {
+  it('finds the ink and leaves out the shadow and the specks', () => {
+    const { mask, bounds } = clean(photo());
+    expect(bounds).not.toBeNull();
+    expect(bounds!.x).toBeGreaterThanOrEqual(98);
+    expect(bounds!.x + bounds!.width).toBeLessThanOrEqual(302);
+    expect(bounds!.y).toBeGreaterThanOrEqual(95);
+    expect(bounds!.y + bounds!.height).toBeLessThanOrEqual(105);
+    expect(pixel(mask, 200, 100)).toEqual([0, 0, 0, 255]);
+    expect(pixel(mask, 390, 100)[3]).toBe(0);
+  });
+
+  it('reports no ink on blank paper', () => {
+    expect(clean(photo({ ink: false })).bounds).toBeNull();
+  });
+
+  it('scales large photos down', () => {
+    const large = createCanvas(3200, 800);
+    get2d(large).drawImage(asImageSource(photo()), 0, 0, 3200, 800);
+    const { mask } = clean(large);
+    expect([mask.width, mask.height]).toEqual([1600, 400]);
+  });
+});
+
+describe('renderCleanedSignature', () => {
+  it('crops to the ink with the margin and colors it', () => {
+    const cleaned = clean(photo());
+    const { bounds } = cleaned;
+    const canvas = renderCleanedSignature(cleaned, '#ff0000', 10)!;
+    expect([canvas.width, canvas.height]).toEqual([bounds!.width + 20, bounds!.height + 20]);
+    expect(pixel(canvas, Math.round(canvas.width / 2), Math.round(canvas.height / 2))).toEqual([255, 0, 0, 255]);
+    expect(pixel(canvas, 2, 2)[3]).toBe(0);
+  });
+
+  it('keeps the whole photo without a margin and needs ink', () => {
+    const canvas = renderCleanedSignature(clean(photo()), '#000000', null)!;
+    expect([canvas.width, canvas.height]).toEqual([400, 200]);
+    expect(renderCleanedSignature(clean(photo({ ink: false })), '#000000', 10)).toBeNull();
+  });
+});
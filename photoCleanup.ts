@@ -0,0 +1,224 @@
+/**
+ * Turns a phone photo or scan of a wet-ink signature into a clean ink mask: lighting and shadows
+ * are divided out, ink is separated with an adaptive threshold, and paper texture specks are
+ * dropped. Everything runs on canvas pixel data in the browser.
+ */
+
+import { RenderCanvas, createCanvas, get2d, asImageSource } from './canvasFactory';
+
+export interface CleanupOptions {
+  sensitivity: number; // 0..1, higher keeps fainter ink
+}
+
+export interface CleanedSignature {
+  mask: RenderCanvas; // black ink with alpha, same size as the (downscaled) photo
+  bounds: { x: number; y: number; width: number; height: number } | null; // ink bounding box
+}
+
+const MAX_SIDE = 1600;
+const BACKGROUND_BLOCK = 16;
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Unsupported image'));
+    };
+    img.src = url;
+  });
+
+/**
+ * Paper brightness at every pixel. Each block keeps its brightest value (ink is thinner than a
+ * block, so it disappears), the block grid is blurred, then sampled back up bilinearly.
+ */
+const estimateBackground = (luma: Float32Array, width: number, height: number) => {
+  const bw = Math.ceil(width / BACKGROUND_BLOCK);
+  const bh = Math.ceil(height / BACKGROUND_BLOCK);
+  let blocks = new Float32Array(bw * bh);
+  for (let y = 0; y < height; y++) {
+    const by = Math.floor(y / BACKGROUND_BLOCK) * bw;
+    for (let x = 0; x < width; x++) {
+      const i = by + Math.floor(x / BACKGROUND_BLOCK);
+      blocks[i] = Math.max(blocks[i], luma[y * width + x]);
+    }
+  }
+  for (let pass = 0; pass < 2; pass++) {
+    const blurred = new Float32Array(bw * bh);
+    for (let y = 0; y < bh; y++) {
+      for (let x = 0; x < bw; x++) {
+        let sum = 0, count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx, ny = y + dy;
+            if (nx < 0 || ny < 0 || nx >= bw || ny >= bh) continue;
+            sum += blocks[ny * bw + nx];
+            count++;
+          }
+        }
+        blurred[y * bw + x] = sum / count;
+      }
+    }
+    blocks = blurred;
+  }
+  const background = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(bh - 1, Math.max(0, (y + 0.5) / BACKGROUND_BLOCK - 0.5));
+    const y0 = Math.floor(fy), y1 = Math.min(bh - 1, y0 + 1), ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(bw - 1, Math.max(0, (x + 0.5) / BACKGROUND_BLOCK - 0.5));
+      const x0 = Math.floor(fx), x1 = Math.min(bw - 1, x0 + 1), tx = fx - x0;
+      const top = blocks[y0 * bw + x0] * (1 - tx) + blocks[y0 * bw + x1] * tx;
+      const bottom = blocks[y1 * bw + x0] * (1 - tx) + blocks[y1 * bw + x1] * tx;
+      background[y * width + x] = Math.max(1, top * (1 - ty) + bottom * ty);
+    }
+  }
+  return background;
+};
+
+/**
+ * Bradley-Roth adaptive threshold: a pixel is ink when it is darker than its neighbourhood mean
+ */
+const adaptiveThreshold = (values: Float32Array, width: number, height: number, window: number, bias: number) => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += values[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+  const half = Math.max(1, Math.floor(window / 2));
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1] - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      if (values[y * width + x] * area < sum * (1 - bias)) ink[y * width + x] = 1;
+    }
+  }
+  return ink;
+};
+
+/**
+ * Drops connected specks smaller than minArea (paper grain, dust, JPEG noise)
+ */
+const removeSpecks = (ink: Uint8Array, width: number, height: number, minArea: number) => {
+  const seen = new Uint8Array(ink.length);
+  const stack: number[] = [];
+  const component: number[] = [];
+  for (let start = 0; start < ink.length; start++) {
+    if (!ink[start] || seen[start]) continue;
+    component.length = 0;
+    stack.push(start);
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      component.push(i);
+      const x = i % width, y = (i - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (ink[n] && !seen[n]) {
+            seen[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+    if (component.length < minArea) component.forEach(i => { ink[i] = 0; });
+  }
+};
+
+/**
+ * Cleans up an already decoded photo of the given pixel size
+ */
+export const cleanupSignatureImage = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, options: CleanupOptions): CleanedSignature => {
+  const fit = Math.min(1, MAX_SIDE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * fit));
+  const height = Math.max(1, Math.round(sourceHeight * fit));
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  // Transparent scans should read as white paper
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  // Dividing by the paper brightness flattens shadows and uneven lighting to white
+  const background = estimateBackground(luma, width, height);
+  const normalized = new Float32Array(luma.length);
+  for (let i = 0; i < luma.length; i++) normalized[i] = Math.min(1, luma[i] / background[i]);
+
+  const sensitivity = Math.min(1, Math.max(0, options.sensitivity));
+  const bias = 0.25 - sensitivity * 0.2;
+  const minDarkness = 0.2 - sensitivity * 0.15;
+  const ink = adaptiveThreshold(normalized, width, height, Math.round(Math.max(width, height) / 12), bias);
+  for (let i = 0; i < ink.length; i++) {
+    if (1 - normalized[i] < minDarkness) ink[i] = 0;
+  }
+  removeSpecks(ink, width, height, Math.max(6, Math.round(width * height * 0.00002)));
+
+  // Ink keeps its darkness as alpha so stroke edges stay smooth
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const alpha = ink[i] ? Math.min(255, Math.round(((1 - normalized[i]) / 0.5) * 255)) : 0;
+      data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = 0;
+      data[i * 4 + 3] = alpha;
+      if (alpha > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  ctx.clearRect(0, 0, width, height);
+  ctx.putImageData(image, 0, 0);
+
+  return {
+    mask: canvas,
+    bounds: maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+  };
+};
+
+export const cleanupSignaturePhoto = async (file: File, options: CleanupOptions): Promise<CleanedSignature> => {
+  const img = await loadImage(file);
+  return cleanupSignatureImage(img, img.naturalWidth, img.naturalHeight, options);
+};
+
+/**
+ * Colors the ink mask and crops it to the ink with a margin (null keeps the whole photo)
+ */
+export const renderCleanedSignature = (cleaned: CleanedSignature, color: string, margin: number | null): RenderCanvas | null => {
+  if (!cleaned.bounds) return null;
+  const { mask, bounds } = cleaned;
+  const area = margin === null
+    ? { x: 0, y: 0, width: mask.width, height: mask.height }
+    : { x: bounds.x - margin, y: bounds.y - margin, width: bounds.width + margin * 2, height: bounds.height + margin * 2 };
+  const canvas = createCanvas(area.width, area.height);
+  const ctx = get2d(canvas);
+  ctx.drawImage(asImageSource(mask), -area.x, -area.y);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+};
@@ -0,0 +1,64 @@
+/**
+ * Build step for offline use: emits dist/sw.js from the sw.js template with this build's version
+ * and file lists filled in.
+ */
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import type { Plugin } from 'vite';
+import { BUILT_IN_FONTS } from './fontCatalog';
+
+const BUILD_PLACEHOLDER = 'self.__SIGNEASE_BUILD__';
+
+const readProjectFile = (name: string) => readFileSync(fileURLToPath(new URL(name, import.meta.url)), 'utf-8');
+
+const hash = (parts: string[]) => createHash('sha256').update(parts.join('\n')).digest('hex').slice(0, 12);
+
+/**
+ * Absolute URLs of the stylesheets and scripts index.html loads from other hosts
+ */
+const externalUrls = (html: string) => {
+  const urls = new Set<string>();
+  for (const [tag] of html.matchAll(/<(?:script|link)\b[^>]*>/g)) {
+    const isScript = tag.startsWith('<script');
+    if (!isScript && !/rel="stylesheet"/.test(tag)) continue;
+    const url = new RegExp(`${isScript ? 'src' : 'href'}="(https?://[^"]+)"`).exec(tag)?.[1];
+    if (url) urls.add(url.replace(/&amp;/g, '&'));
+  }
+  return [...urls];
+};
+
+export const serviceWorkerPlugin = (): Plugin => {
+  let base = '/';
+  return {
+    name: 'signease-service-worker',
+    apply: 'build',
+    // Runs after Vite has added index.html to the bundle
+    enforce: 'post',
+    configResolved(config) {
+      base = config.base;
+    },
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter(name => !name.endsWith('.map')).sort();
+      const indexAsset = bundle['index.html'];
+      const html = indexAsset?.type === 'asset' ? String(indexAsset.source) : readProjectFile('./index.html');
+      const external = externalUrls(html);
+      const fontStylesheets = external.filter(url => new URL(url).hostname === 'fonts.googleapis.com');
+      const fontFiles = BUILT_IN_FONTS.flatMap(font => (font.outlineUrl ? [font.outlineUrl] : []));
+      const template = readProjectFile('./sw.js');
+
+      const build = {
+        version: hash([...files, html, template]),
+        fontVersion: hash([...fontStylesheets, ...fontFiles]),
+        base,
+        precache: [base, ...files.map(name => `${base}${name}`)],
+        fontStylesheets,
+        fontFiles,
+        external: external.filter(url => !fontStylesheets.includes(url))
+      };
+
+      if (!template.includes(BUILD_PLACEHOLDER)) this.error('sw.js no longer contains the build placeholder');
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: template.replace(BUILD_PLACEHOLDER, JSON.stringify(build)) });
+    }
+  };
+};
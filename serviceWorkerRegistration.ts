@@ -0,0 +1,46 @@
+/// <reference types="vite/client" />
+/**
+ * Registers the generated service worker (production builds only; see serviceWorkerPlugin.ts) and
+ * reports when a new version is waiting to take over.
+ */
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * `onUpdateReady` receives a function that activates the waiting version and reloads the page
+ */
+export const registerServiceWorker = (onUpdateReady: (apply: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  let accepted = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    // The first install also claims the page; only reload for an update the user accepted
+    if (accepted) window.location.reload();
+  });
+
+  const promptFor = (worker: ServiceWorker) => onUpdateReady(() => {
+    accepted = true;
+    worker.postMessage({ type: 'SKIP_WAITING' });
+  });
+
+  const register = async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      // A version downloaded on an earlier visit may already be waiting
+      if (registration.waiting && navigator.serviceWorker.controller) promptFor(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          // Without a controller this is the first install rather than an update
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) promptFor(worker);
+        });
+      });
+      setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_INTERVAL);
+    } catch (e) {
+      console.error("Service worker registration failed:", e);
+    }
+  };
+
+  if (document.readyState === 'complete') register();
+  else window.addEventListener('load', register, { once: true });
+};
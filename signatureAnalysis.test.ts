@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Stroke } from './types';
+import {
+  AnalysisInput,
+  analyzeStrokesHeuristically,
+  createGeminiProvider,
+  createMockProvider,
+  heuristicProvider,
+  parseAnalysis
+} from './signatureAnalysis';
+
+/**
+ * A level, wavy signature across most of a 600x200 pad, written at a steady pace
+ */
+const signature = (): Stroke[] => [0, 1].map(n => ({
+  id: `s${n}`,
+  color: '#000000',
+  penWidth: 3,
+  points: Array.from({ length: 80 }, (_, i) => ({
+    x: 60 + n * 230 + i * 2.8,
+    y: 120 - Math.abs(Math.sin(i * 0.35)) * 50,
+    t: 1000 + n * 2000 + i * 12
+  }))
+}));
+
+const input = (strokes = signature()): AnalysisInput => ({ strokes, width: 600, height: 200, imagePng: () => 'iVBORw0KGgo' });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('heuristic analysis', () => {
+  it('scores every feature and explains the result', () => {
+    const result = analyzeStrokesHeuristically(input());
+    expect(result.provider).toBe('heuristic');
+    expect(result.scores.map(s => s.feature)).toEqual(['size', 'slant', 'strokeCount', 'baseline', 'legibility']);
+    for (const s of result.scores) expect(s.score).toBeGreaterThanOrEqual(0);
+    expect(result.overall).toBeGreaterThan(50);
+    expect(result.summary).toMatch(/^This signature looks /);
+  });
+
+  it('marks a tiny signature down on size and suggests signing larger', () => {
+    const tiny = signature().map(s => ({ ...s, points: s.points.map(p => ({ ...p, x: 100 + (p.x - 60) / 10, y: 100 + (p.y - 70) / 10 })) }));
+    const result = analyzeStrokesHeuristically(input(tiny));
+    expect(result.scores.find(s => s.feature === 'size')!.score).toBeLessThan(50);
+    expect(result.tips.some(t => t.startsWith('Sign larger'))).toBe(true);
+  });
+
+  it('needs some ink', async () => {
+    expect(() => analyzeStrokesHeuristically(input([]))).toThrow('Draw a signature first.');
+    await expect(heuristicProvider.analyze(input([]))).rejects.toThrow('Draw a signature first.');
+  });
+});
+
+describe('parseAnalysis', () => {
+  it('clamps scores, drops unknown features and adds labels', () => {
+    const result = parseAnalysis({
+      summary: 'Ok.',
+      scores: [{ feature: 'slant', score: 140, value: 3, note: null }, { feature: 'colour', score: 50 }],
+      tips: ['a', 4]
+    }, 'gemini');
+    expect(result.scores).toEqual([{ feature: 'slant', label: 'Slant', score: 100, value: '3', note: '' }]);
+    expect(result.overall).toBe(100);
+    expect(result.tips).toEqual(['a']);
+  });
+
+  it('rejects a response without a summary or scores', () => {
+    expect(() => parseAnalysis({ scores: [] }, 'gemini')).toThrow('unexpected response');
+    expect(() => parseAnalysis(null, 'gemini')).toThrow('unexpected response');
+  });
+});
+
+describe('Gemini provider', () => {
+  it('posts the PNG to the proxy and parses the answer', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ overall: 70, summary: 'Good.', scores: [], tips: [] })));
+    vi.stubGlobal('fetch', fetchMock);
+    const result = await createGeminiProvider('/api/analyze').analyze(input());
+    expect(result).toMatchObject({ provider: 'gemini', overall: 70, summary: 'Good.' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/analyze');
+    expect(JSON.parse(init.body)).toEqual({ image: 'iVBORw0KGgo', mimeType: 'image/png' });
+  });
+
+  it('passes on the error message of the proxy', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({ error: 'Too many analysis requests.' }), { status: 429 })));
+    await expect(createGeminiProvider('/api/analyze').analyze(input())).rejects.toThrow('Too many analysis requests.');
+  });
+
+  it('explains a network failure', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    await expect(createGeminiProvider('/api/analyze').analyze(input())).rejects.toThrow('could not be reached');
+  });
+});
+
+describe('mock provider', () => {
+  it('returns its canned result, with overrides', async () => {
+    const result = await createMockProvider({ overall: 42 }, 0).analyze(input());
+    expect(result).toMatchObject({ provider: 'mock', overall: 42 });
+    expect(result.scores).toHaveLength(5);
+  });
+});
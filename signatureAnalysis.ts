@@ -0,0 +1,292 @@
+/// <reference types="vite/client" />
+import { Stroke, StrokePoint } from './types';
+
+export type AnalysisFeature = 'size' | 'slant' | 'strokeCount' | 'baseline' | 'legibility';
+
+export interface FeatureScore {
+  feature: AnalysisFeature;
+  label: string;
+  score: number; // 0..100, higher is better
+  value: string; // the measurement in words, e.g. "12° right"
+  note: string;
+}
+
+export interface SignatureAnalysis {
+  provider: string;
+  overall: number; // 0..100
+  summary: string;
+  scores: FeatureScore[];
+  tips: string[];
+}
+
+export interface AnalysisInput {
+  strokes: Stroke[];
+  width: number; // pad size in CSS pixels
+  height: number;
+  imagePng: () => string; // base64 PNG of the pad on white, rendered on demand
+}
+
+export interface AnalysisProvider {
+  id: string;
+  label: string;
+  requiresNetwork: boolean;
+  analyze: (input: AnalysisInput) => Promise<SignatureAnalysis>;
+}
+
+export const FEATURE_LABELS: Record<AnalysisFeature, string> = {
+  size: 'Size',
+  slant: 'Slant',
+  strokeCount: 'Stroke count',
+  baseline: 'Baseline',
+  legibility: 'Legibility'
+};
+
+const FEATURES = Object.keys(FEATURE_LABELS) as AnalysisFeature[];
+
+const SELECTED_PROVIDER_KEY = 'signease.analysisProvider';
+
+const clampScore = (n: number) => Math.round(Math.min(100, Math.max(0, n)));
+
+/**
+ * Scores inside [low, high] get 100 and fall off linearly to 0 at `spread` beyond either end
+ */
+const bandScore = (value: number, low: number, high: number, spread: number) => {
+  if (value >= low && value <= high) return 100;
+  const distance = value < low ? low - value : value - high;
+  return clampScore(100 - (distance / spread) * 100);
+};
+
+const describeOverall = (overall: number) =>
+  overall >= 80 ? 'clean and professional' : overall >= 60 ? 'solid with a few rough edges' : overall >= 40 ? 'usable but inconsistent' : 'hard to read';
+
+const summarize = (scores: FeatureScore[], overall: number) => {
+  const sorted = [...scores].sort((a, b) => b.score - a.score);
+  const best = sorted[0];
+  const worst = sorted[sorted.length - 1];
+  return `This signature looks ${describeOverall(overall)}. Its strongest point is ${best.label.toLowerCase()} (${best.value}); ${worst.score >= 80 ? 'nothing stands out as a problem.' : `${worst.label.toLowerCase()} needs the most work (${worst.value}).`}`;
+};
+
+// Heuristic analyzer ---------------------------------------------------------
+
+const TIPS: Record<AnalysisFeature, string> = {
+  size: 'Sign larger so the signature fills about half to three quarters of the line.',
+  slant: 'Keep a steady slant: let letters lean the same way throughout.',
+  strokeCount: 'Join letters into fewer, more fluid strokes instead of many short marks.',
+  baseline: 'Write along the signing line so the letters sit on a level baseline.',
+  legibility: 'Slow down slightly and give the first letters clear, distinct shapes.'
+};
+
+interface Segment {
+  a: StrokePoint;
+  b: StrokePoint;
+  length: number;
+}
+
+const segmentsOf = (strokes: Stroke[]): Segment[] =>
+  strokes.flatMap(s => s.points.slice(1).map((b, i) => {
+    const a = s.points[i];
+    return { a, b, length: Math.hypot(b.x - a.x, b.y - a.y) };
+  }));
+
+/**
+ * Least-squares line through the lowest point of each vertical slice of the ink
+ */
+const fitBaseline = (points: StrokePoint[], minX: number, width: number) => {
+  const slices = 16;
+  const lowest: (StrokePoint | null)[] = new Array(slices).fill(null);
+  for (const p of points) {
+    const i = Math.min(slices - 1, Math.floor(((p.x - minX) / Math.max(1, width)) * slices));
+    if (!lowest[i] || p.y > lowest[i]!.y) lowest[i] = p;
+  }
+  const samples = lowest.filter((p): p is StrokePoint => p !== null);
+  if (samples.length < 3) return null;
+  const meanX = samples.reduce((sum, p) => sum + p.x, 0) / samples.length;
+  const meanY = samples.reduce((sum, p) => sum + p.y, 0) / samples.length;
+  let num = 0, den = 0;
+  for (const p of samples) {
+    num += (p.x - meanX) * (p.y - meanY);
+    den += (p.x - meanX) ** 2;
+  }
+  const slope = den === 0 ? 0 : num / den;
+  const residual = Math.sqrt(samples.reduce((sum, p) => sum + (p.y - (meanY + slope * (p.x - meanX))) ** 2, 0) / samples.length);
+  return { angle: Math.atan(slope), residual };
+};
+
+export const analyzeStrokesHeuristically = (input: Pick<AnalysisInput, 'strokes' | 'width' | 'height'>): SignatureAnalysis => {
+  const strokes = input.strokes.filter(s => s.points.length > 0);
+  const points = strokes.flatMap(s => s.points);
+  if (points.length < 2) throw new Error('Draw a signature first.');
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  const inkWidth = Math.max(1, maxX - minX);
+  const inkHeight = Math.max(1, maxY - minY);
+  const segments = segmentsOf(strokes);
+  const pathLength = segments.reduce((sum, s) => sum + s.length, 0);
+
+  // Size: share of the pad the ink spans
+  const widthShare = inkWidth / input.width;
+  const heightShare = inkHeight / input.height;
+  const size: FeatureScore = {
+    feature: 'size',
+    label: FEATURE_LABELS.size,
+    score: Math.min(bandScore(widthShare, 0.4, 0.85, 0.35), bandScore(heightShare, 0.12, 0.6, 0.15)),
+    value: `${Math.round(widthShare * 100)}% of the pad width`,
+    note: widthShare < 0.4 ? 'Small signatures lose detail when scaled down for forms.' : widthShare > 0.85 ? 'The signature runs close to the edges of the pad.' : 'Comfortably sized for the signing line.'
+  };
+
+  // Slant: lean of the mostly vertical segments away from upright, weighted by length
+  let slantSum = 0, slantSqSum = 0, slantWeight = 0;
+  for (const seg of segments) {
+    const dx = seg.b.x - seg.a.x;
+    const dy = seg.b.y - seg.a.y;
+    if (seg.length < 2 || Math.abs(dy) < Math.abs(dx) * 1.5) continue;
+    // Positive when the top of the stroke leans right
+    const lean = Math.atan2(dy > 0 ? -dx : dx, Math.abs(dy)) * 180 / Math.PI;
+    slantSum += lean * seg.length;
+    slantSqSum += lean * lean * seg.length;
+    slantWeight += seg.length;
+  }
+  const slantMean = slantWeight > 0 ? slantSum / slantWeight : 0;
+  const slantSpread = slantWeight > 0 ? Math.sqrt(Math.max(0, slantSqSum / slantWeight - slantMean ** 2)) : 0;
+  const slant: FeatureScore = {
+    feature: 'slant',
+    label: FEATURE_LABELS.slant,
+    score: slantWeight === 0 ? 50 : clampScore(Math.min(100 - Math.max(0, slantSpread - 8) * 4, bandScore(Math.abs(slantMean), 0, 30, 20))),
+    value: slantWeight === 0 ? 'not measurable' : `${Math.round(Math.abs(slantMean))}° ${Math.abs(slantMean) < 2 ? 'upright' : slantMean > 0 ? 'right' : 'left'}, ±${Math.round(slantSpread)}°`,
+    note: slantSpread > 15 ? 'Letters lean in different directions.' : 'The slant is consistent.'
+  };
+
+  // Stroke count: a few pen lifts are normal, dozens suggest a hesitant or broken-up signature
+  const strokeCountScore: FeatureScore = {
+    feature: 'strokeCount',
+    label: FEATURE_LABELS.strokeCount,
+    score: bandScore(strokes.length, 1, 6, 10),
+    value: `${strokes.length} stroke${strokes.length === 1 ? '' : 's'}`,
+    note: strokes.length > 6 ? 'Many pen lifts make the signature harder to repeat.' : 'A fluid number of strokes.'
+  };
+
+  // Baseline: how level and steady the bottom of the writing is
+  const fit = fitBaseline(points, minX, inkWidth);
+  const tilt = fit ? Math.abs(fit.angle * 180 / Math.PI) : 0;
+  const wobble = fit ? fit.residual / inkHeight : 0;
+  const baseline: FeatureScore = {
+    feature: 'baseline',
+    label: FEATURE_LABELS.baseline,
+    score: fit ? clampScore(Math.min(bandScore(tilt, 0, 3, 12), 100 - Math.max(0, wobble - 0.08) * 300)) : 50,
+    value: fit ? `${tilt.toFixed(1)}° ${fit.angle < 0 ? 'uphill' : 'downhill'}` : 'too short to measure',
+    note: tilt > 5 ? 'The writing drifts away from the line.' : wobble > 0.2 ? 'Letters bounce above and below the line.' : 'Sits well on the line.'
+  };
+
+  // Legibility proxy: letter-like density of ink along the width and a controlled writing speed
+  const density = pathLength / inkWidth;
+  const durations = strokes.map(s => s.points[s.points.length - 1].t - s.points[0].t);
+  const inkTime = durations.reduce((sum, d) => sum + d, 0);
+  const speed = inkTime > 0 ? pathLength / inkTime : 0; // px per ms
+  const legibility: FeatureScore = {
+    feature: 'legibility',
+    label: FEATURE_LABELS.legibility,
+    score: clampScore(bandScore(density, 2.5, 9, 6) * 0.7 + (inkTime > 0 ? bandScore(speed, 0, 2.5, 3) : 70) * 0.3),
+    value: `${density.toFixed(1)}x ink per width`,
+    note: density < 2.5 ? 'Mostly simple lines; letters may not be recognizable.' : density > 9 ? 'Dense, overlapping ink reads as a scribble.' : 'Letter shapes have room to be recognized.'
+  };
+
+  const scores = [size, slant, strokeCountScore, baseline, legibility];
+  const overall = clampScore(scores.reduce((sum, s) => sum + s.score, 0) / scores.length);
+  return {
+    provider: 'heuristic',
+    overall,
+    summary: summarize(scores, overall),
+    scores,
+    tips: scores.filter(s => s.score < 70).sort((a, b) => a.score - b.score).map(s => TIPS[s.feature])
+  };
+};
+
+// Providers ------------------------------------------------------------------
+
+/**
+ * Checks and normalizes analysis JSON from outside the app (the proxy, or a mock fixture)
+ */
+export const parseAnalysis = (data: unknown, provider: string): SignatureAnalysis => {
+  const raw = data as Partial<SignatureAnalysis> | null;
+  if (!raw || typeof raw.summary !== 'string' || !Array.isArray(raw.scores)) throw new Error('The analysis service returned an unexpected response.');
+  const scores = raw.scores
+    .filter((s): s is FeatureScore => !!s && FEATURES.includes(s.feature) && typeof s.score === 'number')
+    .map(s => ({ ...s, label: FEATURE_LABELS[s.feature], score: clampScore(s.score), value: String(s.value ?? ''), note: String(s.note ?? '') }));
+  const overall = typeof raw.overall === 'number' ? clampScore(raw.overall) : clampScore(scores.reduce((sum, s) => sum + s.score, 0) / Math.max(1, scores.length));
+  return {
+    provider,
+    overall,
+    summary: raw.summary,
+    scores,
+    tips: Array.isArray(raw.tips) ? raw.tips.filter((t): t is string => typeof t === 'string') : []
+  };
+};
+
+export const heuristicProvider: AnalysisProvider = {
+  id: 'heuristic',
+  label: 'Built-in (offline)',
+  requiresNetwork: false,
+  analyze: async input => analyzeStrokesHeuristically(input)
+};
+
+/**
+ * Gemini analysis through a server-side proxy that holds the API key (see api/analyze.ts)
+ */
+export const createGeminiProvider = (endpoint: string): AnalysisProvider => ({
+  id: 'gemini',
+  label: 'Gemini (online)',
+  requiresNetwork: true,
+  analyze: async input => {
+    if (input.strokes.length === 0) throw new Error('Draw a signature first.');
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image: input.imagePng(), mimeType: 'image/png' })
+      });
+    } catch {
+      throw new Error('The analysis service could not be reached. Check your connection or use the built-in analyzer.');
+    }
+    if (!response.ok) {
+      const detail = await response.json().then((body: { error?: string }) => body.error, () => undefined);
+      throw new Error(detail || `The analysis service failed (HTTP ${response.status}).`);
+    }
+    return parseAnalysis(await response.json(), 'gemini');
+  }
+});
+
+/**
+ * Stand-in provider with a canned result, for tests and demos without a backend
+ */
+export const createMockProvider = (result?: Partial<SignatureAnalysis>, delayMs = 300): AnalysisProvider => ({
+  id: 'mock',
+  label: 'Mock',
+  requiresNetwork: false,
+  analyze: async () => {
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    return parseAnalysis({
+      overall: 75,
+      summary: 'Mock analysis: a steady, readable signature.',
+      scores: FEATURES.map(feature => ({ feature, score: 75, value: 'mock', note: 'Fixed mock value.' })),
+      tips: [],
+      ...result
+    }, 'mock');
+  }
+});
+
+export const ANALYSIS_ENDPOINT = import.meta.env.VITE_ANALYSIS_ENDPOINT || '/api/analyze';
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [
+  heuristicProvider,
+  createGeminiProvider(ANALYSIS_ENDPOINT),
+  ...(import.meta.env.DEV || import.meta.env.VITE_ANALYSIS_PROVIDER === 'mock' ? [createMockProvider()] : [])
+];
+
+export const loadSelectedProviderId = () =>
+  localStorage.getItem(SELECTED_PROVIDER_KEY) || import.meta.env.VITE_ANALYSIS_PROVIDER || heuristicProvider.id;
+
+export const saveSelectedProviderId = (id: string) => localStorage.setItem(SELECTED_PROVIDER_KEY, id);
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCanvas } from './canvasFactory';
+import { DEFAULT_BLOCK_OPTIONS, composeSignatureBlock, formatInitials, formatSigningDate, loadBlockOptions } from './signatureBlock';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('formatInitials', () => {
+  it('takes one letter per name part in each style', () => {
+    expect(formatInitials('Jonathan Doe')).toBe('JD');
+    expect(formatInitials('Jonathan Doe', 'dotted')).toBe('J.D.');
+    expect(formatInitials('Jonathan Doe', 'spaced')).toBe('J. D.');
+  });
+
+  it('splits hyphenated names, ignores extra spaces and upper-cases', () => {
+    expect(formatInitials('  mary-jane   van  dyke ')).toBe('MJVD');
+    expect(formatInitials('élodie ørsted')).toBe('ÉØ');
+  });
+
+  it('keeps letters outside the basic plane whole', () => {
+    expect(formatInitials('𝒜da 𝒷yron')).toBe('𝒜𝒷');
+  });
+
+  it('is empty for a blank name', () => {
+    expect(formatInitials('   ', 'dotted')).toBe('');
+  });
+});
+
+describe('formatSigningDate', () => {
+  const date = new Date(2026, 2, 31);
+
+  it.each([
+    ['iso', '2026-03-31'],
+    ['us', '03/31/2026'],
+    ['eu', '31/03/2026'],
+    ['de', '31.03.2026'],
+    ['long-us', 'March 31, 2026'],
+    ['long-gb', '31 March 2026']
+  ] as const)('writes the %s format', (format, expected) => {
+    expect(formatSigningDate(date, format)).toBe(expected);
+  });
+});
+
+describe('loadBlockOptions', () => {
+  const stored = (value: string | null) => vi.stubGlobal('localStorage', { getItem: () => value });
+
+  it('reads saved options', () => {
+    const options = { title: 'CEO, Acme Inc.', showDate: true, dateFormat: 'de', layout: 'contract' };
+    stored(JSON.stringify(options));
+    expect(loadBlockOptions()).toEqual(options);
+  });
+
+  it('falls back to the default for each invalid field on its own', () => {
+    stored(JSON.stringify({ title: 42, showDate: true, dateFormat: 'klingon', layout: 'below-center' }));
+    expect(loadBlockOptions()).toEqual({ ...DEFAULT_BLOCK_OPTIONS, showDate: true, layout: 'below-center' });
+  });
+
+  it('uses the defaults for missing or unreadable storage', () => {
+    stored(null);
+    expect(loadBlockOptions()).toEqual(DEFAULT_BLOCK_OPTIONS);
+    stored('{broken');
+    expect(loadBlockOptions()).toEqual(DEFAULT_BLOCK_OPTIONS);
+    stored('null');
+    expect(loadBlockOptions()).toEqual(DEFAULT_BLOCK_OPTIONS);
+  });
+});
+
+describe('composeSignatureBlock', () => {
+  const signature = () => createCanvas(600, 200);
+
+  it('returns the signature itself when there is no text', () => {
+    const canvas = signature();
+    expect(composeSignatureBlock(canvas, { ...DEFAULT_BLOCK_OPTIONS, title: '  ' }, '#000000')).toBe(canvas);
+  });
+
+  it('adds a line below the signature for each text', () => {
+    const one = composeSignatureBlock(signature(), { ...DEFAULT_BLOCK_OPTIONS, title: 'CEO' }, '#000000');
+    const two = composeSignatureBlock(signature(), { ...DEFAULT_BLOCK_OPTIONS, title: 'CEO', showDate: true }, '#000000');
+    expect(one.width).toBe(600);
+    expect(one.height).toBeGreaterThan(200);
+    expect(two.height).toBeGreaterThan(one.height);
+  });
+
+  it('widens the canvas for a date beside the signature', () => {
+    const block = composeSignatureBlock(signature(), { ...DEFAULT_BLOCK_OPTIONS, showDate: true, layout: 'date-right' }, '#000000');
+    expect(block.width).toBeGreaterThan(600);
+    expect(block.height).toBe(200);
+  });
+});
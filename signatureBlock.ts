@@ -0,0 +1,173 @@
+/**
+ * Text that goes with a signature on contracts: generated initials, a title/company line, the
+ * signing date, and layout templates that place them around a rendered signature.
+ */
+
+import { RenderCanvas, createCanvas, get2d, asImageSource } from './canvasFactory';
+
+export type InitialsStyle = 'plain' | 'dotted' | 'spaced';
+export type DateFormatId = 'iso' | 'us' | 'eu' | 'de' | 'long-us' | 'long-gb' | 'browser';
+export type BlockLayout = 'below-left' | 'below-center' | 'date-right' | 'contract';
+
+export interface SignatureBlockOptions {
+  title: string; // second line, e.g. "CEO, Acme Inc." (empty = none)
+  showDate: boolean;
+  dateFormat: DateFormatId;
+  layout: BlockLayout;
+}
+
+export const DEFAULT_BLOCK_OPTIONS: SignatureBlockOptions = {
+  title: '',
+  showDate: false,
+  dateFormat: 'iso',
+  layout: 'below-left'
+};
+
+export const DATE_FORMATS: { id: DateFormatId; label: string }[] = [
+  { id: 'iso', label: 'ISO (2026-03-31)' },
+  { id: 'us', label: 'US (03/31/2026)' },
+  { id: 'eu', label: 'UK/EU (31/03/2026)' },
+  { id: 'de', label: 'German (31.03.2026)' },
+  { id: 'long-us', label: 'Long US (March 31, 2026)' },
+  { id: 'long-gb', label: 'Long UK (31 March 2026)' },
+  { id: 'browser', label: 'This browser\'s format' }
+];
+
+export const BLOCK_LAYOUTS: { id: BlockLayout; label: string }[] = [
+  { id: 'below-left', label: 'Text below, left' },
+  { id: 'below-center', label: 'Text below, centered' },
+  { id: 'date-right', label: 'Date beside signature' },
+  { id: 'contract', label: 'Contract line' }
+];
+
+const BLOCK_OPTIONS_KEY = 'signease.signatureBlock';
+const TEXT_FONT = 'Inter, "Helvetica Neue", Arial, sans-serif';
+
+/**
+ * Saved block options. Each field that is missing or of the wrong type falls back to its default.
+ */
+export const loadBlockOptions = (): SignatureBlockOptions => {
+  let stored: Partial<Record<keyof SignatureBlockOptions, unknown>> | null;
+  try {
+    stored = JSON.parse(localStorage.getItem(BLOCK_OPTIONS_KEY) || '{}');
+  } catch {
+    return DEFAULT_BLOCK_OPTIONS;
+  }
+  if (!stored || typeof stored !== 'object') return DEFAULT_BLOCK_OPTIONS;
+  const { title, showDate, dateFormat, layout } = stored;
+  return {
+    title: typeof title === 'string' ? title : DEFAULT_BLOCK_OPTIONS.title,
+    showDate: typeof showDate === 'boolean' ? showDate : DEFAULT_BLOCK_OPTIONS.showDate,
+    dateFormat: DATE_FORMATS.some(f => f.id === dateFormat) ? dateFormat as DateFormatId : DEFAULT_BLOCK_OPTIONS.dateFormat,
+    layout: BLOCK_LAYOUTS.some(l => l.id === layout) ? layout as BlockLayout : DEFAULT_BLOCK_OPTIONS.layout
+  };
+};
+
+export const saveBlockOptions = (options: SignatureBlockOptions) => {
+  localStorage.setItem(BLOCK_OPTIONS_KEY, JSON.stringify(options));
+};
+
+export const hasBlockText = (options: SignatureBlockOptions) => options.showDate || options.title.trim() !== '';
+
+/**
+ * Initials from a full name: "Jonathan Doe" gives "JD", "J.D." or "J. D.". Hyphenated names
+ * contribute one initial per part ("Mary-Jane" gives "MJ").
+ */
+export const formatInitials = (name: string, style: InitialsStyle = 'plain') => {
+  const letters = name.trim().split(/[\s-]+/).filter(Boolean).map(part => Array.from(part)[0].toLocaleUpperCase());
+  if (letters.length === 0) return '';
+  if (style === 'plain') return letters.join('');
+  return letters.map(l => `${l}.`).join(style === 'spaced' ? ' ' : '');
+};
+
+const DATE_LOCALES: Record<Exclude<DateFormatId, 'iso'>, [string | undefined, Intl.DateTimeFormatOptions]> = {
+  us: ['en-US', { year: 'numeric', month: '2-digit', day: '2-digit' }],
+  eu: ['en-GB', { year: 'numeric', month: '2-digit', day: '2-digit' }],
+  de: ['de-DE', { year: 'numeric', month: '2-digit', day: '2-digit' }],
+  'long-us': ['en-US', { year: 'numeric', month: 'long', day: 'numeric' }],
+  'long-gb': ['en-GB', { year: 'numeric', month: 'long', day: 'numeric' }],
+  browser: [undefined, { dateStyle: 'medium' }]
+};
+
+export const formatSigningDate = (date: Date, format: DateFormatId) => {
+  if (format === 'iso') {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+  const [locale, options] = DATE_LOCALES[format];
+  return new Intl.DateTimeFormat(locale, options).format(date);
+};
+
+/**
+ * Places the title and date around a rendered signature according to the layout. Text size
+ * follows the signature's size so the block keeps its proportions at any export resolution.
+ */
+export const composeSignatureBlock = (signature: RenderCanvas, options: SignatureBlockOptions, color: string, date = new Date()): RenderCanvas => {
+  const title = options.title.trim();
+  const dateText = options.showDate ? formatSigningDate(date, options.dateFormat) : '';
+  if (!title && !dateText) return signature;
+
+  const fontSize = Math.max(12, Math.round(Math.min(signature.height * 0.2, signature.width * 0.06)));
+  const lineHeight = Math.round(fontSize * 1.35);
+  const gap = Math.round(fontSize * 0.5);
+  const font = `${fontSize}px ${TEXT_FONT}`;
+
+  const measure = get2d(createCanvas(1, 1));
+  measure.font = font;
+  const textWidth = (text: string) => (text ? Math.ceil(measure.measureText(text).width) : 0);
+
+  const canvas = createCanvas();
+  let lines: { text: string; x: number; y: number; align: CanvasTextAlign }[] = [];
+  let signatureX = 0;
+  let rule: { y: number } | null = null;
+
+  if (options.layout === 'date-right') {
+    // Date sits beside the signature on its bottom edge, the title goes underneath
+    const dateWidth = textWidth(dateText);
+    canvas.width = Math.max(signature.width + (dateText ? gap * 2 + dateWidth : 0), textWidth(title));
+    canvas.height = signature.height + (title ? gap + lineHeight : 0);
+    if (dateText) lines.push({ text: dateText, x: signature.width + gap * 2, y: signature.height - gap, align: 'left' });
+    if (title) lines.push({ text: title, x: 0, y: signature.height + gap + fontSize, align: 'left' });
+  } else if (options.layout === 'contract') {
+    // Signature over a rule; title on the left and date on the right below it
+    const dateLabel = dateText ? `Date: ${dateText}` : '';
+    const below = textWidth(title) + textWidth(dateLabel) + (title && dateLabel ? gap * 4 : 0);
+    canvas.width = Math.max(signature.width, below);
+    canvas.height = signature.height + gap + lineHeight + gap;
+    signatureX = Math.round((canvas.width - signature.width) / 2);
+    rule = { y: signature.height + Math.round(gap / 2) };
+    const textY = signature.height + gap + fontSize;
+    if (title) lines.push({ text: title, x: 0, y: textY, align: 'left' });
+    if (dateLabel) lines.push({ text: dateLabel, x: title ? canvas.width : canvas.width / 2, y: textY, align: title ? 'right' : 'center' });
+  } else {
+    const centered = options.layout === 'below-center';
+    const stacked = [title, dateText].filter(Boolean);
+    canvas.width = Math.max(signature.width, ...stacked.map(textWidth));
+    canvas.height = signature.height + gap + stacked.length * lineHeight;
+    signatureX = centered ? Math.round((canvas.width - signature.width) / 2) : 0;
+    lines = stacked.map((text, i) => ({
+      text,
+      x: centered ? canvas.width / 2 : 0,
+      y: signature.height + gap + i * lineHeight + fontSize,
+      align: centered ? 'center' : 'left'
+    }));
+  }
+
+  const ctx = get2d(canvas);
+  ctx.drawImage(asImageSource(signature), signatureX, 0);
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  if (rule) {
+    ctx.lineWidth = Math.max(1, Math.round(fontSize / 12));
+    ctx.beginPath();
+    ctx.moveTo(0, rule.y);
+    ctx.lineTo(canvas.width, rule.y);
+    ctx.stroke();
+  }
+  ctx.font = font;
+  ctx.textBaseline = 'alphabetic';
+  for (const line of lines) {
+    ctx.textAlign = line.align;
+    ctx.fillText(line.text, line.x, line.y);
+  }
+  return canvas;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Stroke } from './types';
+import { compareSignatures, dtw } from './signatureCompare';
+
+/**
+ * Two strokes, a wave and a loop, written at a steady pace
+ */
+const signature = (scale = 1, offsetX = 0, msPerPoint = 10): Stroke[] => [
+  Array.from({ length: 60 }, (_, i) => ({ x: i * 4, y: 40 + Math.sin(i / 5) * 30 })),
+  Array.from({ length: 40 }, (_, i) => ({ x: 280 + Math.cos(i / 6) * 20, y: 40 + Math.sin(i / 6) * 20 }))
+].map((points, n) => ({
+  id: `s${n}`,
+  color: '#000000',
+  penWidth: 3,
+  points: points.map((p, i) => ({ x: offsetX + p.x * scale, y: p.y * scale, t: n * 1000 + i * msPerPoint }))
+}));
+
+/**
+ * A single straight, tall stroke: nothing like the signature above
+ */
+const line = (): Stroke[] => [{
+  id: 'l',
+  color: '#000000',
+  penWidth: 3,
+  points: Array.from({ length: 30 }, (_, i) => ({ x: 10, y: i * 10, t: i * 40 }))
+}];
+
+const scoreOf = (feature: string, strokes: Stroke[], reference: Stroke[]) =>
+  compareSignatures(strokes, reference)!.features.find(f => f.feature === feature)!.score;
+
+describe('dtw', () => {
+  const distance = (p: number, q: number) => Math.abs(p - q);
+
+  it('costs nothing for identical or merely stretched sequences', () => {
+    expect(dtw([1, 2, 3], [1, 2, 3], distance)).toBe(0);
+    expect(dtw([1, 2, 3], [1, 1, 2, 2, 3, 3], distance)).toBe(0);
+  });
+
+  it('averages the cost over the warping path', () => {
+    expect(dtw([0, 0], [1, 1], distance)).toBe(1);
+    expect(dtw([1, 2, 3], [1, 2, 5], distance)).toBeCloseTo(2 / 3);
+  });
+
+  it('is infinite for an empty sequence', () => {
+    expect(dtw([], [1], distance)).toBe(Infinity);
+  });
+});
+
+describe('compareSignatures', () => {
+  it('scores a signature against itself as a perfect match', () => {
+    const result = compareSignatures(signature(), signature())!;
+    expect(result.score).toBe(100);
+    expect(result.verdict).toBe('consistent');
+    expect(result.features.map(f => f.feature)).toEqual(['shape', 'strokeOrder', 'aspectRatio', 'timing']);
+  });
+
+  it('ignores position and size', () => {
+    const moved = signature(2.5, 300);
+    expect(scoreOf('shape', moved, signature())).toBeGreaterThanOrEqual(99);
+    expect(scoreOf('aspectRatio', moved, signature())).toBe(100);
+    expect(scoreOf('strokeOrder', moved, signature())).toBeGreaterThanOrEqual(99);
+  });
+
+  it('marks down the same shape written at a different pace', () => {
+    expect(scoreOf('timing', signature(1, 0, 30), signature())).toBeLessThan(75);
+  });
+
+  it('tells a different signature apart', () => {
+    const result = compareSignatures(line(), signature())!;
+    expect(result.verdict).toBe('different');
+    expect(result.features.find(f => f.feature === 'strokeOrder')!.detail).toBe('1 strokes vs 2 in the reference');
+  });
+
+  it('gives a neutral timing score when no timing was recorded', () => {
+    const untimed = signature(1, 0, 0);
+    const timing = compareSignatures(untimed, signature())!.features.find(f => f.feature === 'timing')!;
+    expect(timing).toMatchObject({ score: 50, detail: 'No timing recorded' });
+  });
+
+  it('needs ink on both sides', () => {
+    expect(compareSignatures([], signature())).toBeNull();
+    expect(compareSignatures(signature(), [{ ...signature()[0], points: [] }])).toBeNull();
+  });
+});
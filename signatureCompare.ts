@@ -0,0 +1,202 @@
+import { Stroke } from './types';
+
+export type CompareFeature = 'shape' | 'strokeOrder' | 'aspectRatio' | 'timing';
+
+export interface FeatureSimilarity {
+  feature: CompareFeature;
+  label: string;
+  score: number; // 0..100
+  detail: string;
+}
+
+export interface SignatureComparison {
+  score: number; // 0..100, weighted over the features
+  verdict: 'consistent' | 'similar' | 'different';
+  features: FeatureSimilarity[];
+}
+
+interface Sample {
+  x: number;
+  y: number;
+  t: number; // 0..1 share of the ink time
+}
+
+const SAMPLES = 96;
+
+const WEIGHTS: Record<CompareFeature, number> = {
+  shape: 0.4,
+  strokeOrder: 0.2,
+  aspectRatio: 0.15,
+  timing: 0.25
+};
+
+const clampScore = (n: number) => Math.round(Math.min(100, Math.max(0, n)));
+
+const inkOf = (strokes: Stroke[]) => strokes.filter(s => s.points.length > 0);
+
+const boundsOf = (strokes: Stroke[]) => {
+  const pts = strokes.flatMap(s => s.points);
+  const xs = pts.map(p => p.x);
+  const ys = pts.map(p => p.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  return { minX, minY, width: Math.max(1, Math.max(...xs) - minX), height: Math.max(1, Math.max(...ys) - minY) };
+};
+
+/**
+ * Resamples the pen path to evenly spaced points, in a unit box that keeps the aspect ratio, with
+ * time measured as the share of pen-down time elapsed. Pen lifts are skipped, not interpolated.
+ */
+const resample = (strokes: Stroke[], count = SAMPLES): Sample[] => {
+  const { minX, minY, width, height } = boundsOf(strokes);
+  const size = Math.max(width, height);
+  const segments: { ax: number; ay: number; bx: number; by: number; ta: number; tb: number; length: number }[] = [];
+  let inkTime = 0;
+  for (const stroke of strokes) {
+    const start = stroke.points[0].t;
+    for (let i = 1; i < stroke.points.length; i++) {
+      const a = stroke.points[i - 1], b = stroke.points[i];
+      segments.push({
+        ax: (a.x - minX) / size, ay: (a.y - minY) / size, bx: (b.x - minX) / size, by: (b.y - minY) / size,
+        ta: inkTime + (a.t - start), tb: inkTime + (b.t - start),
+        length: Math.hypot(b.x - a.x, b.y - a.y) / size
+      });
+    }
+    inkTime += stroke.points[stroke.points.length - 1].t - start;
+  }
+  const total = segments.reduce((sum, s) => sum + s.length, 0);
+  if (total === 0) {
+    const p = strokes[0].points[0];
+    return new Array(count).fill(null).map(() => ({ x: (p.x - minX) / size, y: (p.y - minY) / size, t: 0 }));
+  }
+  const samples: Sample[] = [];
+  let seg = 0, walked = 0;
+  for (let i = 0; i < count; i++) {
+    const target = (total * i) / (count - 1);
+    while (seg < segments.length - 1 && walked + segments[seg].length < target) {
+      walked += segments[seg].length;
+      seg++;
+    }
+    const s = segments[seg];
+    const f = s.length === 0 ? 0 : Math.min(1, Math.max(0, (target - walked) / s.length));
+    samples.push({
+      x: s.ax + (s.bx - s.ax) * f,
+      y: s.ay + (s.by - s.ay) * f,
+      t: inkTime > 0 ? (s.ta + (s.tb - s.ta) * f) / inkTime : i / (count - 1)
+    });
+  }
+  return samples;
+};
+
+/**
+ * Dynamic time warping cost between two sequences, normalized by the length of the warping path
+ */
+export const dtw = <T,>(a: T[], b: T[], distance: (p: T, q: T) => number): number => {
+  const n = a.length, m = b.length;
+  if (n === 0 || m === 0) return Infinity;
+  let prev = new Float64Array(m + 1).fill(Infinity);
+  let prevSteps = new Float64Array(m + 1);
+  prev[0] = 0;
+  for (let i = 1; i <= n; i++) {
+    const row = new Float64Array(m + 1).fill(Infinity);
+    const steps = new Float64Array(m + 1);
+    for (let j = 1; j <= m; j++) {
+      const cost = distance(a[i - 1], b[j - 1]);
+      // Pick the cheapest predecessor: match, insertion or deletion
+      let best = prev[j - 1], bestSteps = prevSteps[j - 1];
+      if (prev[j] < best) { best = prev[j]; bestSteps = prevSteps[j]; }
+      if (row[j - 1] < best) { best = row[j - 1]; bestSteps = steps[j - 1]; }
+      row[j] = cost + best;
+      steps[j] = bestSteps + 1;
+    }
+    prev = row;
+    prevSteps = steps;
+  }
+  return prev[m] / prevSteps[m];
+};
+
+const pointDistance = (p: Sample, q: Sample) => Math.hypot(p.x - q.x, p.y - q.y);
+
+/**
+ * Pen speed along the resampled path, scaled so the average is 1
+ */
+const speedProfile = (samples: Sample[]) => {
+  const speeds = samples.slice(1).map((s, i) => {
+    const dt = s.t - samples[i].t;
+    return dt > 0 ? 1 / dt : 0;
+  });
+  const finite = speeds.filter(v => v > 0);
+  const mean = finite.length > 0 ? finite.reduce((sum, v) => sum + v, 0) / finite.length : 1;
+  return speeds.map(v => Math.min(4, v / mean));
+};
+
+const inkDuration = (strokes: Stroke[]) =>
+  strokes.reduce((sum, s) => sum + (s.points[s.points.length - 1].t - s.points[0].t), 0);
+
+const ratioScore = (a: number, b: number) => (a <= 0 || b <= 0 ? 0 : (Math.min(a, b) / Math.max(a, b)) * 100);
+
+/**
+ * Compares a new signature with a reference one. Both are normalized for position and scale, so
+ * only the shape, the order and proportions of the strokes and the writing rhythm count.
+ */
+export const compareSignatures = (candidate: Stroke[], reference: Stroke[]): SignatureComparison | null => {
+  const a = inkOf(candidate);
+  const b = inkOf(reference);
+  if (a.length === 0 || b.length === 0) return null;
+
+  const samplesA = resample(a);
+  const samplesB = resample(b);
+
+  // Shape: average distance between aligned points, as a share of the signature size
+  const shapeCost = dtw(samplesA, samplesB, pointDistance);
+  const shape: FeatureSimilarity = {
+    feature: 'shape',
+    label: 'Shape',
+    score: clampScore(100 - (shapeCost / 0.12) * 100),
+    detail: `Aligned points differ by ${Math.round(shapeCost * 100)}% of the signature size`
+  };
+
+  // Stroke order: the position of each stroke's start, in writing order
+  const boxA = boundsOf(a), boxB = boundsOf(b);
+  const starts = (strokes: Stroke[], box: ReturnType<typeof boundsOf>) => {
+    const size = Math.max(box.width, box.height);
+    return strokes.map(s => ({ x: (s.points[0].x - box.minX) / size, y: (s.points[0].y - box.minY) / size, t: 0 }));
+  };
+  const orderCost = dtw(starts(a, boxA), starts(b, boxB), pointDistance);
+  const countPenalty = Math.abs(a.length - b.length) / Math.max(a.length, b.length);
+  const strokeOrder: FeatureSimilarity = {
+    feature: 'strokeOrder',
+    label: 'Stroke order',
+    score: clampScore((100 - (orderCost / 0.25) * 100) * (1 - countPenalty * 0.5)),
+    detail: a.length === b.length ? `${a.length} stroke${a.length === 1 ? '' : 's'} in both` : `${a.length} strokes vs ${b.length} in the reference`
+  };
+
+  // Aspect ratio of the ink
+  const aspectA = boxA.width / boxA.height;
+  const aspectB = boxB.width / boxB.height;
+  const aspectRatio: FeatureSimilarity = {
+    feature: 'aspectRatio',
+    label: 'Aspect ratio',
+    score: clampScore((ratioScore(aspectA, aspectB) - 50) * 2),
+    detail: `${aspectA.toFixed(2)} vs ${aspectB.toFixed(2)} in the reference`
+  };
+
+  // Timing: total pen-down time and the speed profile along the path
+  const durationA = inkDuration(a);
+  const durationB = inkDuration(b);
+  const hasTiming = durationA > 0 && durationB > 0;
+  const rhythmCost = hasTiming ? dtw(speedProfile(samplesA), speedProfile(samplesB), (p, q) => Math.abs(p - q)) : 0;
+  const timing: FeatureSimilarity = {
+    feature: 'timing',
+    label: 'Timing',
+    score: hasTiming ? clampScore(ratioScore(durationA, durationB) * 0.5 + (100 - rhythmCost * 100) * 0.5) : 50,
+    detail: hasTiming ? `${(durationA / 1000).toFixed(1)}s vs ${(durationB / 1000).toFixed(1)}s in the reference` : 'No timing recorded'
+  };
+
+  const features = [shape, strokeOrder, aspectRatio, timing];
+  const score = clampScore(features.reduce((sum, f) => sum + f.score * WEIGHTS[f.feature], 0));
+  return {
+    score,
+    verdict: score >= 75 ? 'consistent' : score >= 50 ? 'similar' : 'different',
+    features
+  };
+};
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LibraryEntry } from './signatureLibrary';
+
+// An in-memory stand-in for the IndexedDB store: requests resolve to their result right away
+const rows = new Map<string, unknown>();
+
+vi.mock('./localDb', () => ({
+  promisify: async (result: unknown) => result,
+  withStore: async (_name: string, _mode: string, run: (store: unknown) => Promise<unknown>) => run({
+    get: (id: string) => rows.get(id),
+    getAll: () => [...rows.values()],
+    put: (value: { id: string }) => rows.set(value.id, value),
+    delete: (id: string) => rows.delete(id)
+  })
+}));
+
+const { exportLibrary, importLibrary, listEntries, setDefaultEntry } = await import('./signatureLibrary');
+
+const THUMBNAIL = 'data:image/png;base64,iVBORw0KGgo=';
+
+const drawn = (id: string, overrides: Partial<LibraryEntry> = {}): LibraryEntry => ({
+  id,
+  name: `Signature ${id}`,
+  kind: 'signature',
+  method: 'drawn',
+  strokes: [{ id: 's1', color: '#000000', penWidth: 3, points: [{ x: 1, y: 2, t: 3 }] }],
+  color: '#000000',
+  penWidth: 3,
+  thumbnail: THUMBNAIL,
+  isDefault: false,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const typed = (id: string, overrides: Partial<LibraryEntry> = {}): LibraryEntry => ({
+  ...drawn(id),
+  kind: 'initials',
+  method: 'typed',
+  strokes: undefined,
+  typed: { text: 'A.L.', fontName: 'Caveat', weight: 1, sourceName: 'Ada Lovelace', initialsStyle: 'dotted' },
+  ...overrides
+});
+
+const libraryFile = (entries: unknown[]) => JSON.stringify({ format: 'signease-library', version: 1, exportedAt: '2026-01-02T00:00:00.000Z', entries });
+
+beforeEach(() => {
+  rows.clear();
+});
+
+describe('listEntries', () => {
+  it('skips malformed entries and fills in missing timestamps', async () => {
+    rows.set('a', drawn('a', { updatedAt: undefined as unknown as string }));
+    rows.set('b', drawn('b', { thumbnail: 'javascript:alert(1)' }));
+    rows.set('c', drawn('c', { strokes: [{ id: 's', color: 'red', penWidth: 3, points: [] }] }));
+    rows.set('d', typed('d', { typed: { text: 'A', fontName: 'Caveat', weight: -1 } }));
+    rows.set('e', typed('e', { updatedAt: '2026-02-01T00:00:00.000Z' }));
+    const entries = await listEntries();
+    expect(entries.map(e => e.id)).toEqual(['e', 'a']);
+    expect(entries[1].updatedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(entries[0].typed).toEqual({ text: 'A.L.', fontName: 'Caveat', weight: 1, sourceName: 'Ada Lovelace', initialsStyle: 'dotted' });
+  });
+
+  it('drops properties that are not part of an entry', async () => {
+    rows.set('a', { ...drawn('a'), extra: '<script>' });
+    expect(await listEntries()).toEqual([drawn('a')]);
+  });
+});
+
+describe('importLibrary', () => {
+  it('imports valid entries and counts only those', async () => {
+    expect(await importLibrary(libraryFile([drawn('a'), typed('b'), { id: 'c' }, null]))).toBe(2);
+    expect([...rows.keys()].sort()).toEqual(['a', 'b']);
+  });
+
+  it('keeps the local default flags', async () => {
+    rows.set('a', drawn('a', { isDefault: true }));
+    rows.set('b', drawn('b'));
+    await importLibrary(libraryFile([drawn('a', { name: 'Renamed' }), drawn('b', { isDefault: true }), drawn('c', { isDefault: true })]));
+    expect(rows.get('a')).toMatchObject({ name: 'Renamed', isDefault: true });
+    expect(rows.get('b')).toMatchObject({ isDefault: false });
+    expect(rows.get('c')).toMatchObject({ isDefault: false });
+  });
+
+  it('rejects files that are not a library export', async () => {
+    await expect(importLibrary(JSON.stringify({ entries: [] }))).rejects.toThrow('Not a SignEase library file');
+    await expect(importLibrary('not json')).rejects.toThrow();
+  });
+
+  it('reads back its own export', async () => {
+    rows.set('a', drawn('a'));
+    rows.set('b', typed('b'));
+    const json = await exportLibrary();
+    rows.clear();
+    expect(await importLibrary(json)).toBe(2);
+    expect(await listEntries()).toHaveLength(2);
+  });
+});
+
+describe('setDefaultEntry', () => {
+  it('moves the default within one kind and leaves the other kind alone', async () => {
+    rows.set('a', drawn('a', { isDefault: true }));
+    rows.set('b', drawn('b'));
+    rows.set('c', typed('c', { isDefault: true }));
+    await setDefaultEntry('b');
+    expect([...rows.values()].map(e => [(e as LibraryEntry).id, (e as LibraryEntry).isDefault])).toEqual([['a', false], ['b', true], ['c', true]]);
+  });
+});
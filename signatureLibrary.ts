@@ -0,0 +1,173 @@
+import { Stroke, StrokePoint } from './types';
+import { promisify, withStore } from './localDb';
+import { InitialsStyle } from './signatureBlock';
+
+export type LibraryKind = 'signature' | 'initials';
+export type LibraryMethod = 'drawn' | 'typed';
+
+export interface TypedSettings {
+  text: string; // what is rendered: the name, or the initials for initials entries
+  fontName: string;
+  weight: number;
+  sourceName?: string; // initials entries: the full name the initials were made from
+  initialsStyle?: InitialsStyle;
+}
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  kind: LibraryKind;
+  method: LibraryMethod;
+  strokes?: Stroke[]; // drawn entries
+  typed?: TypedSettings; // typed entries
+  color: string;
+  penWidth: number;
+  thumbnail: string; // small PNG data URL
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * File format for moving a library between devices
+ */
+export interface LibraryExport {
+  format: 'signease-library';
+  version: 1;
+  exportedAt: string;
+  entries: LibraryEntry[];
+}
+
+export const createEntryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+
+const isIsoDate = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const isStrokePoint = (value: unknown): value is StrokePoint => {
+  const p = value as StrokePoint;
+  return !!p && isFiniteNumber(p.x) && isFiniteNumber(p.y) && isFiniteNumber(p.t)
+    && (p.pressure === undefined || isFiniteNumber(p.pressure));
+};
+
+const isStroke = (value: unknown): value is Stroke => {
+  const s = value as Stroke;
+  return !!s && typeof s.id === 'string' && isHexColor(s.color) && isFiniteNumber(s.penWidth) && s.penWidth > 0
+    && Array.isArray(s.points) && s.points.every(isStrokePoint);
+};
+
+const INITIALS_STYLES: InitialsStyle[] = ['plain', 'dotted', 'spaced'];
+
+const isTypedSettings = (value: unknown): value is TypedSettings => {
+  const t = value as TypedSettings;
+  return !!t && typeof t.text === 'string' && typeof t.fontName === 'string' && isFiniteNumber(t.weight) && t.weight >= 0
+    && (t.sourceName === undefined || typeof t.sourceName === 'string')
+    && (t.initialsStyle === undefined || INITIALS_STYLES.includes(t.initialsStyle));
+};
+
+/**
+ * Checks an entry read from a library file or the database. Returns the entry with missing
+ * timestamps filled in, or null when anything the UI draws from is malformed.
+ */
+const normalizeEntry = (value: unknown): LibraryEntry | null => {
+  const e = value as LibraryEntry;
+  if (!e || typeof e.id !== 'string' || typeof e.name !== 'string') return null;
+  if (e.kind !== 'signature' && e.kind !== 'initials') return null;
+  if (e.method === 'drawn' ? !Array.isArray(e.strokes) || !e.strokes.every(isStroke) : e.method !== 'typed' || !isTypedSettings(e.typed)) return null;
+  if (!isHexColor(e.color) || !isFiniteNumber(e.penWidth) || e.penWidth <= 0) return null;
+  // Thumbnails go straight into <img src>, so nothing but an inline PNG is accepted
+  if (typeof e.thumbnail !== 'string' || !e.thumbnail.startsWith('data:image/png;base64,')) return null;
+  const createdAt = isIsoDate(e.createdAt) ? e.createdAt : isIsoDate(e.updatedAt) ? e.updatedAt : new Date().toISOString();
+  const entry: LibraryEntry = {
+    id: e.id,
+    name: e.name,
+    kind: e.kind,
+    method: e.method,
+    color: e.color,
+    penWidth: e.penWidth,
+    thumbnail: e.thumbnail,
+    isDefault: e.isDefault === true,
+    createdAt,
+    updatedAt: isIsoDate(e.updatedAt) ? e.updatedAt : createdAt
+  };
+  if (e.method === 'drawn') entry.strokes = e.strokes;
+  else {
+    const { text, fontName, weight, sourceName, initialsStyle } = e.typed!;
+    entry.typed = { text, fontName, weight };
+    if (sourceName !== undefined) entry.typed.sourceName = sourceName;
+    if (initialsStyle !== undefined) entry.typed.initialsStyle = initialsStyle;
+  }
+  return entry;
+};
+
+const normalizeEntries = (values: unknown[]) =>
+  values.map(normalizeEntry).filter((entry): entry is LibraryEntry => entry !== null);
+
+/**
+ * Every stored entry, most recently changed first. Entries that fail validation are left out
+ * rather than breaking the whole list.
+ */
+export const listEntries = async (): Promise<LibraryEntry[]> => {
+  const stored = await withStore('library', 'readonly', store => promisify(store.getAll() as IDBRequest<unknown[]>));
+  return normalizeEntries(stored).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const putEntry = (entry: LibraryEntry) => withStore('library', 'readwrite', async store => {
+  await promisify(store.put(entry));
+});
+
+export const deleteEntry = (id: string) => withStore('library', 'readwrite', async store => {
+  await promisify(store.delete(id));
+});
+
+export const renameEntry = (id: string, name: string) => withStore('library', 'readwrite', async store => {
+  const entry = await promisify(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+  if (!entry) return;
+  await promisify(store.put({ ...entry, name, updatedAt: new Date().toISOString() }));
+});
+
+/**
+ * Marks one entry as the default of its kind and clears the flag on the others
+ */
+export const setDefaultEntry = (id: string) => withStore('library', 'readwrite', async store => {
+  const entries = await promisify(store.getAll() as IDBRequest<LibraryEntry[]>);
+  const target = entries.find(e => e.id === id);
+  if (!target) return;
+  for (const entry of entries) {
+    if (entry.kind !== target.kind) continue;
+    const isDefault = entry.id === id;
+    if (entry.isDefault !== isDefault) await promisify(store.put({ ...entry, isDefault }));
+  }
+});
+
+export const exportLibrary = async (): Promise<string> => {
+  const data: LibraryExport = {
+    format: 'signease-library',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    entries: await listEntries()
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * Merges an exported library into this one. Entries with a known id are replaced but keep their
+ * local default flag, imported entries never take over the local defaults, and malformed entries
+ * are skipped. Returns the number of entries imported.
+ */
+export const importLibrary = async (json: string): Promise<number> => {
+  const data = JSON.parse(json) as Partial<LibraryExport>;
+  if (data.format !== 'signease-library' || !Array.isArray(data.entries)) {
+    throw new Error('Not a SignEase library file');
+  }
+  const entries = normalizeEntries(data.entries);
+  await withStore('library', 'readwrite', async store => {
+    for (const entry of entries) {
+      const existing = await promisify(store.get(entry.id) as IDBRequest<LibraryEntry | undefined>);
+      await promisify(store.put({ ...entry, isDefault: existing?.isDefault === true }));
+    }
+  });
+  return entries.length;
+};
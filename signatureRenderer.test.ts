@@ -0,0 +1,208 @@
+import { readFileSync } from 'node:fs';
+import { loadImage } from '@napi-rs/canvas';
+import { parse as parseFont } from 'opentype.js';
+import { describe, expect, it } from 'vitest';
+import { TEST_FONT_FAMILY, TEST_FONT_PATH } from './testSetup';
+import { Stroke, StrokePoint } from './types';
+import { BUILT_IN_PROFILES, ExportProfile, renderScaleFor } from './exportProfiles';
+import {
+  drawnExportCanvas,
+  drawnSignatureToSvg,
+  renderDrawnSignature,
+  renderTypedSignature,
+  straightenStrokes,
+  strokeBounds,
+  strokesToSvg,
+  typedExportCanvas,
+  typedTextToSvg
+} from './signatureRenderer';
+
+const PAD = { width: 600, height: 200 };
+const FULL_PAD_PROFILE: ExportProfile = { ...BUILT_IN_PROFILES[0], id: 'full-pad', cropMargin: null };
+const TYPED = { text: 'Jane Doe', fontFamily: `'${TEST_FONT_FAMILY}'`, color: '#000000', weight: 0 };
+
+const stroke = (points: Omit<StrokePoint, 't'>[], id = 's1'): Stroke => ({
+  id,
+  points: points.map((p, i) => ({ ...p, t: 1000 + i * 16 })),
+  color: '#000000',
+  penWidth: 3
+});
+
+/**
+ * A zigzag whose low points all sit on a line through (x0, baseY) with the given slope
+ */
+const zigzag = (slope: number, baseY = 140, x0 = 60, cycles = 40, step = 6, amplitude = 30) => {
+  const points: Omit<StrokePoint, 't'>[] = [];
+  for (let i = 0; i <= cycles * 2; i++) {
+    const x = x0 + i * step;
+    points.push({ x, y: baseY + slope * (x - x0) - (i % 2 === 0 ? 0 : amplitude) });
+  }
+  return points;
+};
+
+/**
+ * The lowest points of a zigzag, which estimateBaseline treats as the baseline
+ */
+const troughs = (s: Stroke) => s.points.filter((_, i) => i % 2 === 0);
+
+/**
+ * Several dense, wavy strokes across the pad: enough detail that size limits actually bite
+ */
+const scribble = (): Stroke[] =>
+  Array.from({ length: 6 }, (_, row) => stroke(
+    Array.from({ length: 240 }, (_, i) => ({
+      x: 20 + i * 2.3,
+      y: 30 + row * 25 + Math.sin(i * 0.45 + row) * 18 + Math.cos(i * 0.13) * 9,
+      pressure: 0.3 + 0.6 * Math.abs(Math.sin(i * 0.2))
+    })),
+    `s${row}`
+  ));
+
+const decodedSize = async (data: Uint8Array) => {
+  const image = await loadImage(Buffer.from(data));
+  return { width: image.width, height: image.height };
+};
+
+describe('size-limit compliance', () => {
+  it.each(BUILT_IN_PROFILES.map(p => [p.name, p] as const))('keeps a drawn signature within %s', async (_name, profile) => {
+    const result = await renderDrawnSignature(scribble(), profile, { pad: PAD });
+    expect(result).not.toBeNull();
+    expect(result!.withinLimit).toBe(true);
+    expect(result!.bytes).toBe(result!.data.length);
+    expect(result!.data.length).toBeLessThanOrEqual(profile.maxBytes);
+    expect(await decodedSize(result!.data)).toEqual({ width: result!.width, height: result!.height });
+  });
+
+  it.each(BUILT_IN_PROFILES.map(p => [p.name, p] as const))('keeps a typed signature within %s', async (_name, profile) => {
+    const result = await renderTypedSignature(TYPED, profile);
+    expect(result.withinLimit).toBe(true);
+    expect(result.data.length).toBeLessThanOrEqual(profile.maxBytes);
+    expect(await decodedSize(result.data)).toEqual({ width: result.width, height: result.height });
+  });
+
+  it('exports the exact size a profile fixes', async () => {
+    const profile = BUILT_IN_PROFILES.find(p => p.id === 'gov-form')!;
+    const result = await renderDrawnSignature(scribble(), profile, { pad: PAD });
+    expect(result).toMatchObject({ width: 400, height: 150 });
+  });
+
+  it('reports a limit that cannot be met instead of exceeding it silently', async () => {
+    const profile: ExportProfile = { ...FULL_PAD_PROFILE, maxBytes: 64, width: 600, height: 200 };
+    const result = await renderDrawnSignature(scribble(), profile, { pad: PAD });
+    expect(result!.withinLimit).toBe(false);
+    expect(result!.bytes).toBeGreaterThan(64);
+  });
+});
+
+describe('drawnExportCanvas', () => {
+  it('returns null without ink', () => {
+    expect(drawnExportCanvas([], BUILT_IN_PROFILES[0], { pad: PAD })).toBeNull();
+  });
+
+  it('renders the full pad at the profile scale', () => {
+    const canvas = drawnExportCanvas(scribble(), FULL_PAD_PROFILE, { pad: PAD })!;
+    expect([canvas.width, canvas.height]).toEqual([PAD.width * 2, PAD.height * 2]);
+  });
+
+  it('uses the DPI of the profile for the render scale', () => {
+    const profile: ExportProfile = { ...FULL_PAD_PROFILE, dpi: 300 };
+    const canvas = drawnExportCanvas(scribble(), profile, { pad: PAD })!;
+    expect([canvas.width, canvas.height]).toEqual([Math.ceil(PAD.width * 300 / 96), Math.ceil(PAD.height * 300 / 96)]);
+  });
+
+  it('crops to the ink plus the profile margin', () => {
+    const strokes = scribble();
+    const profile = BUILT_IN_PROFILES[0];
+    const bounds = strokeBounds(strokes, profile.cropMargin!)!;
+    const scale = renderScaleFor(profile);
+    const canvas = drawnExportCanvas(strokes, profile, { pad: PAD })!;
+    expect([canvas.width, canvas.height]).toEqual([Math.ceil(bounds.width * scale), Math.ceil(bounds.height * scale)]);
+  });
+});
+
+describe('typedExportCanvas', () => {
+  it('renders the fixed signature canvas without a crop margin', () => {
+    const canvas = typedExportCanvas(TYPED, FULL_PAD_PROFILE);
+    expect([canvas.width, canvas.height]).toEqual([2400, 800]);
+  });
+
+  it('trims cropped output to the glyphs', () => {
+    const canvas = typedExportCanvas(TYPED, BUILT_IN_PROFILES[0]);
+    expect(canvas.width).toBeGreaterThan(canvas.height);
+    expect(canvas.width).toBeLessThan(2400);
+  });
+
+  it('pads cropped output by the weight once', () => {
+    const profile = BUILT_IN_PROFILES[0];
+    const plain = typedExportCanvas(TYPED, profile);
+    const heavy = typedExportCanvas({ ...TYPED, weight: 2 }, profile);
+    expect(heavy.width - plain.width).toBe(4);
+    expect(heavy.height - plain.height).toBe(4);
+  });
+});
+
+describe('SVG output', () => {
+  it('draws strokes as paths inside the given box', () => {
+    const svg = strokesToSvg([stroke(zigzag(0))], { x: 10, y: 20, width: 300, height: 150 });
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="300" height="150" viewBox="10 20 300 150">/);
+    expect(svg).toContain('stroke="#000000"');
+    expect(svg).toMatch(/<path d="M[\d.]+ [\d.]+Q/);
+    expect(svg.endsWith('</svg>')).toBe(true);
+  });
+
+  it('draws a single-point stroke as a dot', () => {
+    const svg = strokesToSvg([stroke([{ x: 50, y: 60 }])], { x: 0, y: 0, width: 100, height: 100 });
+    expect(svg).toContain('<circle cx="50" cy="60" r="1.5" fill="#000000"/>');
+    expect(svg).not.toContain('<path');
+  });
+
+  it('follows the crop margin of the profile', () => {
+    const strokes = [stroke(zigzag(0))];
+    const profile = BUILT_IN_PROFILES[0];
+    const bounds = strokeBounds(strokes, profile.cropMargin!)!;
+    const svg = drawnSignatureToSvg(strokes, profile, { pad: PAD })!;
+    expect(svg).toContain(`viewBox="${Math.round(bounds.x * 10) / 10} ${Math.round(bounds.y * 10) / 10} `);
+  });
+
+  it('spans the whole pad without a crop margin', () => {
+    const svg = drawnSignatureToSvg([stroke(zigzag(0))], FULL_PAD_PROFILE, { pad: PAD })!;
+    expect(svg).toContain('viewBox="0 0 600 200"');
+    expect(drawnSignatureToSvg([], FULL_PAD_PROFILE, { pad: PAD })).toBeNull();
+  });
+
+  it('outlines typed text with the font glyphs', () => {
+    const data = readFileSync(TEST_FONT_PATH);
+    const font = parseFont(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+    const plain = typedTextToSvg('Jane Doe', font, '#1a3d8f', 0);
+    expect(plain).toContain('viewBox="0 0 1200 400"');
+    expect(plain).toMatch(/<path d="M[^"]+" fill="#1a3d8f"\/>/);
+    expect(typedTextToSvg('Jane Doe', font, '#1a3d8f', 1.5)).toContain('stroke-width="3"');
+  });
+});
+
+describe('straightenStrokes', () => {
+  it('levels a tilted baseline', () => {
+    const [straightened] = straightenStrokes([stroke(zigzag(0.1))]);
+    const ys = troughs(straightened).map(p => p.y);
+    expect(Math.max(...ys) - Math.min(...ys)).toBeLessThan(0.01);
+  });
+
+  it('moves the baseline onto the target height', () => {
+    const [straightened] = straightenStrokes([stroke(zigzag(-0.08))], 160);
+    for (const p of troughs(straightened)) expect(p.y).toBeCloseTo(160, 2);
+  });
+
+  it('leaves steep slopes alone as intentional', () => {
+    const original = [stroke(zigzag(0.5))];
+    const [result] = straightenStrokes(original);
+    result.points.forEach((p, i) => {
+      expect(p.x).toBeCloseTo(original[0].points[i].x, 6);
+      expect(p.y).toBeCloseTo(original[0].points[i].y, 6);
+    });
+  });
+
+  it('keeps too little ink unchanged', () => {
+    const short = [stroke([{ x: 10, y: 10 }, { x: 20, y: 12 }, { x: 30, y: 14 }])];
+    expect(straightenStrokes(short)).toBe(short);
+  });
+});
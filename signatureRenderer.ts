@@ -0,0 +1,458 @@
+/**
+ * Framework-independent signature rendering: strokes or typed-name options go in, canvases, encoded
+ * image bytes or SVG come out. Nothing here touches the DOM directly, so outside a browser it runs
+ * on whatever canvas setCanvasFactory installs (e.g. node-canvas). Fonts are the caller's job: the
+ * family passed for typed text must already be loaded (document.fonts in a browser, registerFont
+ * in node-canvas) or the canvas silently falls back to a generic face.
+ */
+import { Font } from 'opentype.js';
+import { Stroke, StrokePoint } from './types';
+import { RenderCanvas, createCanvas, get2d } from './canvasFactory';
+import { FontSettings, DEFAULT_FONT_SETTINGS } from './typedFonts';
+import { ExportProfile, ExportResult, getOptimizedDataUrl, dataUrlToBytes, renderScaleFor } from './exportProfiles';
+
+// Baseline tilt beyond this is left alone when straightening
+const MAX_STRAIGHTEN_ANGLE = 15 * Math.PI / 180;
+// Room kept free around typed text on the fixed 1200x400 canvas before it is shrunk to fit
+const TYPED_CANVAS_MARGIN = 60;
+// The pad's signing line, as a fraction of its height
+const GUIDELINE_RATIO = 0.8;
+
+interface CurveSegment {
+  from: { x: number; y: number };
+  ctrl: StrokePoint;
+  to: { x: number; y: number };
+  index: number; // index of the control point in the stroke
+}
+
+export interface InkBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Splits a stroke into the smoothed quadratic segments through its points (midpoint smoothing)
+ */
+const strokeSegments = (pts: StrokePoint[]): CurveSegment[] => {
+  const segments: CurveSegment[] = [];
+  let from = { x: pts[0].x, y: pts[0].y };
+  for (let i = 1; i < pts.length - 2; i++) {
+    const to = { x: (pts[i].x + pts[i + 1].x) / 2, y: (pts[i].y + pts[i + 1].y) / 2 };
+    segments.push({ from, ctrl: pts[i], to, index: i });
+    from = to;
+  }
+  const n = pts.length;
+  segments.push({ from, ctrl: pts[n - 2], to: pts[n - 1], index: n - 2 });
+  return segments;
+};
+
+/**
+ * Line width at each point: from pen pressure when the stroke has it, otherwise from drawing speed
+ * (slow strokes pool ink, fast strokes thin out). Widths are eased to avoid visible steps.
+ */
+const strokeWidths = (stroke: Stroke): number[] => {
+  const pts = stroke.points;
+  const usePressure = pts.some(p => p.pressure !== undefined);
+  const widths: number[] = [];
+  let factor = 1;
+  let pressure = 0.5;
+  for (let i = 0; i < pts.length; i++) {
+    let target = 1;
+    if (usePressure) {
+      // Pens may skip the reading on contact or lift; carry the last known value over
+      pressure = pts[i].pressure ?? pressure;
+      target = 0.35 + 1.3 * pressure;
+    } else if (i > 0) {
+      const dt = Math.max(1, pts[i].t - pts[i - 1].t);
+      const speed = Math.hypot(pts[i].x - pts[i - 1].x, pts[i].y - pts[i - 1].y) / dt; // px per ms
+      target = Math.min(1.5, Math.max(0.45, 1.5 - speed * 0.6));
+    }
+    factor = i === 0 ? target : factor * 0.7 + target * 0.3;
+    widths.push(stroke.penWidth * factor);
+  }
+  return widths;
+};
+
+const segmentWidth = (widths: number[], segment: CurveSegment) =>
+  (widths[segment.index] + widths[Math.min(segment.index + 1, widths.length - 1)]) / 2;
+
+const traceStroke = (ctx: CanvasRenderingContext2D, pts: StrokePoint[]) => {
+  ctx.beginPath();
+  ctx.moveTo(pts[0].x, pts[0].y);
+  for (const seg of strokeSegments(pts)) ctx.quadraticCurveTo(seg.ctrl.x, seg.ctrl.y, seg.to.x, seg.to.y);
+};
+
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke, highlighted = false) => {
+  const pts = stroke.points;
+  if (pts.length === 0) return;
+  const widths = strokeWidths(stroke);
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (pts.length === 1) {
+    // A single tap becomes a dot
+    ctx.fillStyle = highlighted ? 'rgba(99, 102, 241, 0.35)' : stroke.color;
+    ctx.beginPath();
+    ctx.arc(pts[0].x, pts[0].y, (widths[0] + (highlighted ? 8 : 0)) / 2, 0, Math.PI * 2);
+    ctx.fill();
+  } else if (highlighted) {
+    traceStroke(ctx, pts);
+    ctx.strokeStyle = 'rgba(99, 102, 241, 0.35)';
+    ctx.lineWidth = Math.max(...widths) + 8;
+    ctx.stroke();
+  } else {
+    // Each segment is stroked on its own so the width can change along the line
+    ctx.strokeStyle = stroke.color;
+    for (const seg of strokeSegments(pts)) {
+      ctx.beginPath();
+      ctx.moveTo(seg.from.x, seg.from.y);
+      ctx.quadraticCurveTo(seg.ctrl.x, seg.ctrl.y, seg.to.x, seg.to.y);
+      ctx.lineWidth = segmentWidth(widths, seg);
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
+};
+
+/**
+ * Paints the writing guides and the "X" signing line shown on the pad. Exports never include them.
+ */
+export const drawGuidelines = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  ctx.save();
+  ctx.setLineDash([]);
+  ctx.strokeStyle = 'rgba(99, 102, 241, 0.1)';
+  ctx.lineWidth = 1;
+  for (let i = 40; i < height; i += 30) {
+    ctx.beginPath();
+    ctx.moveTo(0, i);
+    ctx.lineTo(width, i);
+    ctx.stroke();
+  }
+  const lineY = height * GUIDELINE_RATIO;
+  ctx.strokeStyle = 'rgba(71, 85, 105, 0.4)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(50, lineY);
+  ctx.lineTo(width - 50, lineY);
+  ctx.stroke();
+  ctx.font = `bold ${24}px Inter`;
+  ctx.fillStyle = 'rgba(71, 85, 105, 0.4)';
+  ctx.fillText('X', 55, lineY - 10);
+  ctx.restore();
+};
+
+/**
+ * Bounding box of the ink, including half the line width around every point
+ */
+export const strokeBounds = (strokes: Stroke[], margin = 0): InkBounds | null => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const stroke of strokes) {
+    const reach = Math.max(...strokeWidths(stroke)) / 2;
+    for (const p of stroke.points) {
+      minX = Math.min(minX, p.x - reach);
+      minY = Math.min(minY, p.y - reach);
+      maxX = Math.max(maxX, p.x + reach);
+      maxY = Math.max(maxY, p.y + reach);
+    }
+  }
+  if (!isFinite(minX)) return null;
+  return { x: minX - margin, y: minY - margin, width: maxX - minX + margin * 2, height: maxY - minY + margin * 2 };
+};
+
+/**
+ * Renders strokes onto a transparent canvas trimmed to the ink (no guidelines)
+ */
+export const renderStrokesCropped = (strokes: Stroke[], scale: number, padding = 4): RenderCanvas | null => {
+  const bounds = strokeBounds(strokes, padding);
+  if (!bounds) return null;
+  const canvas = createCanvas(bounds.width * scale, bounds.height * scale);
+  const ctx = get2d(canvas);
+  ctx.scale(scale, scale);
+  ctx.translate(-bounds.x, -bounds.y);
+  strokes.forEach(stroke => drawStroke(ctx, stroke));
+  return canvas;
+};
+
+/**
+ * Renders strokes at their pad positions without guidelines or selection highlights
+ */
+export const renderStrokesFull = (strokes: Stroke[], width: number, height: number, scale: number, background?: string): RenderCanvas => {
+  const canvas = createCanvas(Math.round(width * scale), Math.round(height * scale));
+  const ctx = get2d(canvas);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.scale(scale, scale);
+  strokes.forEach(stroke => drawStroke(ctx, stroke));
+  return canvas;
+};
+
+/**
+ * Fits a line through the lowest ink in vertical slices across the signature, which is where the
+ * writer "sits" on the guideline. Angles beyond the limit are treated as intentional and ignored.
+ */
+const estimateBaseline = (strokes: Stroke[]): { angle: number; x: number; y: number } | null => {
+  const pts = strokes.flatMap(s => s.points);
+  const bounds = strokeBounds(strokes);
+  if (!bounds || pts.length < 10 || bounds.width < 40) return null;
+  const slices = 16;
+  const lowest: (StrokePoint | null)[] = new Array(slices).fill(null);
+  for (const p of pts) {
+    const i = Math.min(slices - 1, Math.floor(((p.x - bounds.x) / bounds.width) * slices));
+    if (!lowest[i] || p.y > lowest[i]!.y) lowest[i] = p;
+  }
+  const samples = lowest.filter((p): p is StrokePoint => p !== null);
+  if (samples.length < 3) return null;
+  const meanX = samples.reduce((sum, p) => sum + p.x, 0) / samples.length;
+  const meanY = samples.reduce((sum, p) => sum + p.y, 0) / samples.length;
+  let num = 0, den = 0;
+  for (const p of samples) {
+    num += (p.x - meanX) * (p.y - meanY);
+    den += (p.x - meanX) ** 2;
+  }
+  const angle = den === 0 ? 0 : Math.atan(num / den);
+  if (Math.abs(angle) > MAX_STRAIGHTEN_ANGLE) return { angle: 0, x: meanX, y: meanY };
+  return { angle, x: meanX, y: meanY };
+};
+
+const transformStrokes = (strokes: Stroke[], angle: number, cx: number, cy: number, dy = 0): Stroke[] => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return strokes.map(stroke => ({
+    ...stroke,
+    points: stroke.points.map(p => {
+      const dx = p.x - cx;
+      const dyp = p.y - cy;
+      return { ...p, x: cx + dx * cos - dyp * sin, y: cy + dx * sin + dyp * cos + dy };
+    })
+  }));
+};
+
+/**
+ * Levels the signature's baseline. With a target, the baseline is also moved onto that height
+ * (the pad's guideline) so full-pad exports line up with the "X" line.
+ */
+export const straightenStrokes = (strokes: Stroke[], baselineY?: number): Stroke[] => {
+  const baseline = estimateBaseline(strokes);
+  if (!baseline) return strokes;
+  return transformStrokes(strokes, -baseline.angle, baseline.x, baseline.y, baselineY === undefined ? 0 : baselineY - baseline.y);
+};
+
+/**
+ * Renders a line of typed text onto a transparent canvas trimmed to the glyphs. `weight` is the
+ * slider value, the same as renderTypedCanvas takes; the outline is drawn at twice that width.
+ */
+export const renderTypedCropped = (text: string, fontFamily: string, fill: string, weight: number, fontSize = 160, margin = 8, letterSpacing = 0): RenderCanvas => {
+  const canvas = createCanvas();
+  const ctx = get2d(canvas);
+  const font = `${fontSize}px ${fontFamily}`;
+  const spacing = `${letterSpacing * fontSize}px`;
+  ctx.font = font;
+  ctx.letterSpacing = spacing;
+  const metrics = ctx.measureText(text);
+  const pad = weight + margin;
+  const left = metrics.actualBoundingBoxLeft;
+  const ascent = metrics.actualBoundingBoxAscent;
+  canvas.width = Math.ceil(left + metrics.actualBoundingBoxRight + pad * 2);
+  canvas.height = Math.ceil(ascent + metrics.actualBoundingBoxDescent + pad * 2);
+  // Resizing the canvas reset the context state
+  ctx.font = font;
+  ctx.letterSpacing = spacing;
+  ctx.fillStyle = fill;
+  if (weight > 0) {
+    ctx.strokeStyle = fill;
+    ctx.lineWidth = weight * 2;
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+    ctx.strokeText(text, pad + left, pad + ascent);
+  }
+  ctx.fillText(text, pad + left, pad + ascent);
+  return canvas;
+};
+
+/**
+ * Largest size up to `fontSize` at which the text fits the box, so long names shrink instead of
+ * running off the canvas
+ */
+const fitFontSize = (ctx: CanvasRenderingContext2D, text: string, fontFamily: string, fontSize: number, letterSpacing: number, maxWidth: number, maxHeight: number) => {
+  ctx.font = `${fontSize}px ${fontFamily}`;
+  ctx.letterSpacing = `${letterSpacing * fontSize}px`;
+  const metrics = ctx.measureText(text);
+  const width = metrics.actualBoundingBoxLeft + metrics.actualBoundingBoxRight;
+  const height = metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent;
+  const fit = Math.min(1, maxWidth / Math.max(1, width), maxHeight / Math.max(1, height));
+  return fontSize * fit;
+};
+
+/**
+ * Renders typed text centered on the fixed 1200x400 signature canvas (at 2x), shrunk to fit
+ */
+export const renderTypedCanvas = (text: string, fontFamily: string, fill: string, weight: number, settings: FontSettings = DEFAULT_FONT_SETTINGS): RenderCanvas => {
+  const scale = 2;
+  const tempCanvas = createCanvas(1200 * scale, 400 * scale);
+  const ctx = get2d(tempCanvas);
+
+  const margin = TYPED_CANVAS_MARGIN * scale;
+  const fontSize = fitFontSize(ctx, text, fontFamily, 160 * settings.scale * scale, settings.letterSpacing, tempCanvas.width - margin * 2, tempCanvas.height - margin);
+  ctx.font = `${fontSize}px ${fontFamily}`;
+  ctx.letterSpacing = `${settings.letterSpacing * fontSize}px`;
+  ctx.fillStyle = fill;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  if (weight > 0) {
+    ctx.strokeStyle = fill;
+    ctx.lineWidth = weight * scale * 2;
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+    ctx.strokeText(text, tempCanvas.width / 2, tempCanvas.height / 2);
+  }
+  ctx.fillText(text, tempCanvas.width / 2, tempCanvas.height / 2);
+  return tempCanvas;
+};
+
+const svgNum = (n: number) => (Math.round(n * 10) / 10).toString();
+
+/**
+ * Mirrors drawStroke as SVG paths so the vector export matches the canvas. Consecutive segments
+ * whose widths round to the same half pixel share one <path>.
+ */
+const strokeToSvgPaths = (stroke: Stroke) => {
+  const widths = strokeWidths(stroke);
+  const runs: { width: number; d: string[] }[] = [];
+  for (const seg of strokeSegments(stroke.points)) {
+    const width = Math.max(0.5, Math.round(segmentWidth(widths, seg) * 2) / 2);
+    const last = runs[runs.length - 1];
+    const curve = `Q${svgNum(seg.ctrl.x)} ${svgNum(seg.ctrl.y)} ${svgNum(seg.to.x)} ${svgNum(seg.to.y)}`;
+    if (last && last.width === width) {
+      last.d.push(curve);
+    } else {
+      runs.push({ width, d: [`M${svgNum(seg.from.x)} ${svgNum(seg.from.y)}`, curve] });
+    }
+  }
+  return runs
+    .map(run => `<path d="${run.d.join('')}" fill="none" stroke="${stroke.color}" stroke-width="${svgNum(run.width)}" stroke-linecap="round" stroke-linejoin="round"/>`)
+    .join('');
+};
+
+export const strokesToSvg = (strokes: Stroke[], box: InkBounds) => {
+  const elements = strokes.filter(s => s.points.length > 0).map(s => {
+    const pts = s.points;
+    if (pts.length === 1) {
+      return `<circle cx="${svgNum(pts[0].x)}" cy="${svgNum(pts[0].y)}" r="${svgNum(strokeWidths(s)[0] / 2)}" fill="${s.color}"/>`;
+    }
+    return strokeToSvgPaths(s);
+  });
+  const width = svgNum(box.width);
+  const height = svgNum(box.height);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${svgNum(box.x)} ${svgNum(box.y)} ${width} ${height}">${elements.join('')}</svg>`;
+};
+
+/**
+ * Converts typed text into glyph outlines, laid out and fitted like the 1200x400 raster export
+ */
+export const typedTextToSvg = (text: string, font: Font, fill: string, weight: number, settings: FontSettings = DEFAULT_FONT_SETTINGS) => {
+  const width = 1200;
+  const height = 400;
+  const options = { letterSpacing: settings.letterSpacing };
+  let fontSize = 160 * settings.scale;
+  let box = font.getPath(text, 0, 0, fontSize, options).getBoundingBox();
+  const fit = Math.min(1, (width - TYPED_CANVAS_MARGIN * 2) / Math.max(1, box.x2 - box.x1), (height - TYPED_CANVAS_MARGIN) / Math.max(1, box.y2 - box.y1));
+  if (fit < 1) {
+    fontSize *= fit;
+    box = font.getPath(text, 0, 0, fontSize, options).getBoundingBox();
+  }
+  const dx = (width - (box.x2 - box.x1)) / 2 - box.x1;
+  const dy = (height - (box.y2 - box.y1)) / 2 - box.y1;
+  const path = font.getPath(text, dx, dy, fontSize, options).toPathData(1);
+  const outline = weight > 0
+    ? ` stroke="${fill}" stroke-width="${svgNum(weight * 2)}" stroke-linejoin="round" stroke-linecap="round"`
+    : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><path d="${path}" fill="${fill}"${outline}/></svg>`;
+};
+
+export const svgToDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+export interface PadSize {
+  width: number;
+  height: number;
+}
+
+export interface DrawnRenderOptions {
+  pad: PadSize; // size of the pad the strokes were captured on, in CSS pixels
+  straighten?: boolean;
+}
+
+export interface TypedRenderOptions {
+  text: string;
+  fontFamily: string; // CSS font-family list; the face must already be loaded
+  color: string;
+  weight: number; // extra outline width in px, 0 = the font's own weight
+  settings?: FontSettings;
+}
+
+/**
+ * An encoded export along with its raw file bytes
+ */
+export interface RenderedSignature extends ExportResult {
+  data: Uint8Array;
+}
+
+/**
+ * Strokes as they should be exported: optionally leveled, and for full-pad output (when the pad
+ * height is given) moved onto the signing line
+ */
+export const prepareExportStrokes = (strokes: Stroke[], straighten: boolean, padHeight?: number) => {
+  if (!straighten) return strokes;
+  return straightenStrokes(strokes, padHeight === undefined ? undefined : padHeight * GUIDELINE_RATIO);
+};
+
+/**
+ * The canvas an export profile starts from for drawn strokes: trimmed to the ink when the profile
+ * has a crop margin, otherwise the full pad
+ */
+export const drawnExportCanvas = (strokes: Stroke[], profile: ExportProfile, { pad, straighten = false }: DrawnRenderOptions): RenderCanvas | null => {
+  if (strokes.length === 0) return null;
+  const scale = renderScaleFor(profile);
+  if (profile.cropMargin !== null) return renderStrokesCropped(prepareExportStrokes(strokes, straighten), scale, profile.cropMargin);
+  return renderStrokesFull(prepareExportStrokes(strokes, straighten, pad.height), pad.width, pad.height, scale);
+};
+
+/**
+ * The canvas an export profile starts from for typed text: trimmed to the glyphs when the profile
+ * has a crop margin, otherwise the fixed 1200x400 canvas
+ */
+export const typedExportCanvas = ({ text, fontFamily, color, weight, settings = DEFAULT_FONT_SETTINGS }: TypedRenderOptions, profile: ExportProfile): RenderCanvas => {
+  if (profile.cropMargin !== null) return renderTypedCropped(text, fontFamily, color, weight, 160 * settings.scale, profile.cropMargin, settings.letterSpacing);
+  return renderTypedCanvas(text, fontFamily, color, weight, settings);
+};
+
+const encodeForProfile = async (canvas: RenderCanvas, profile: ExportProfile): Promise<RenderedSignature> => {
+  const result = await getOptimizedDataUrl(canvas, profile);
+  return { ...result, data: dataUrlToBytes(result.dataUrl) };
+};
+
+/**
+ * Renders and encodes drawn strokes for a profile. Resolves to null when there is no ink.
+ */
+export const renderDrawnSignature = async (strokes: Stroke[], profile: ExportProfile, options: DrawnRenderOptions): Promise<RenderedSignature | null> => {
+  const canvas = drawnExportCanvas(strokes, profile, options);
+  return canvas ? encodeForProfile(canvas, profile) : null;
+};
+
+export const renderTypedSignature = (options: TypedRenderOptions, profile: ExportProfile): Promise<RenderedSignature> =>
+  encodeForProfile(typedExportCanvas(options, profile), profile);
+
+/**
+ * Vector version of drawn strokes, following the profile's crop margin like the raster export
+ */
+export const drawnSignatureToSvg = (strokes: Stroke[], profile: ExportProfile, { pad, straighten = false }: DrawnRenderOptions): string | null => {
+  if (strokes.length === 0) return null;
+  const fullPad = profile.cropMargin === null;
+  const exportStrokes = prepareExportStrokes(strokes, straighten, fullPad ? pad.height : undefined);
+  const box = fullPad ? { x: 0, y: 0, ...pad } : strokeBounds(exportStrokes, profile.cropMargin!);
+  return box ? strokesToSvg(exportStrokes, box) : null;
+};
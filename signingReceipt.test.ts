@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PROFILES } from './exportProfiles';
+import { buildSigningReceipt, parseSigningReceipt, receiptToHtml, verifySigningReceipt } from './signingReceipt';
+
+const IMAGE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3, 4]);
+
+const receipt = (overrides: { signer?: string; method?: 'drawn' | 'typed' | 'uploaded'; font?: string } = {}) => buildSigningReceipt({
+  signer: 'Ada Lovelace',
+  method: 'drawn',
+  straightened: true,
+  fileName: 'signature.png',
+  mimeType: 'image/png',
+  width: 400,
+  height: 150,
+  profile: BUILT_IN_PROFILES[0],
+  ...overrides
+}, IMAGE);
+
+describe('buildSigningReceipt', () => {
+  it('records the file hash and the profile without its built-in flag', async () => {
+    const r = await receipt();
+    expect(r.file).toMatchObject({ name: 'signature.png', bytes: 8, width: 400, height: 150 });
+    expect(r.file.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(r.id.endsWith(r.file.sha256.slice(0, 8))).toBe(true);
+    expect(r.profile).not.toHaveProperty('builtIn');
+    expect(r.utcOffset).toMatch(/^[+-]\d\d:\d\d$/);
+  });
+
+  it('keeps the font for typed signatures only and leaves out a blank signer', async () => {
+    expect((await receipt({ method: 'typed', font: 'Caveat' })).font).toBe('Caveat');
+    expect((await receipt({ font: 'Caveat' })).font).toBeNull();
+    expect((await receipt({ signer: '  ' })).signer).toBeNull();
+  });
+});
+
+describe('parseSigningReceipt', () => {
+  it('reads back a receipt it wrote, with or without a profile', async () => {
+    const r = await receipt();
+    expect(parseSigningReceipt(JSON.stringify(r))).toEqual(r);
+    expect(parseSigningReceipt(JSON.stringify({ ...r, profile: null }))).toEqual({ ...r, profile: null });
+  });
+
+  it('rejects other files and receipts with malformed fields', async () => {
+    const r = await receipt();
+    expect(parseSigningReceipt('not json')).toBeNull();
+    expect(parseSigningReceipt(JSON.stringify({ ...r, format: 'other' }))).toBeNull();
+    expect(parseSigningReceipt(JSON.stringify({ ...r, createdAt: 'yesterday' }))).toBeNull();
+    expect(parseSigningReceipt(JSON.stringify({ ...r, file: { ...r.file, bytes: '8' } }))).toBeNull();
+    expect(parseSigningReceipt(JSON.stringify({ ...r, profile: { ...r.profile, format: 'gif' } }))).toBeNull();
+  });
+});
+
+describe('verifySigningReceipt', () => {
+  it('matches the exact bytes of the exported file', async () => {
+    expect(await verifySigningReceipt(new Blob([IMAGE]), await receipt())).toEqual({ status: 'match' });
+  });
+
+  it('explains a mismatch by size or by content', async () => {
+    const r = await receipt();
+    const changed = IMAGE.slice();
+    changed[7] = 5;
+    expect(await verifySigningReceipt(new Blob([changed]), r)).toEqual({ status: 'mismatch', reason: 'The image has the recorded size but different contents.' });
+    const longer = await verifySigningReceipt(new Blob([IMAGE, IMAGE]), r);
+    expect(longer.status).toBe('mismatch');
+    expect(longer.status === 'mismatch' && longer.reason).toMatch(/^The image is .* but the receipt records /);
+  });
+
+  it('refuses a receipt without a valid hash', async () => {
+    const r = await receipt();
+    const check = await verifySigningReceipt(new Blob([IMAGE]), { ...r, file: { ...r.file, sha256: 'abc' } });
+    expect(check.status).toBe('invalid');
+  });
+});
+
+describe('receiptToHtml', () => {
+  it('escapes every value taken from the receipt', async () => {
+    const r = await receipt({ signer: '<script>alert("x")</script>' });
+    const html = receiptToHtml({ ...r, file: { ...r.file, name: `a'b&c.png` } }, 'data:image/png;base64,AA"><img src=x onerror=alert(1)>');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+    expect(html).toContain('a&#39;b&amp;c.png');
+    expect(html).not.toContain('"><img src=x');
+  });
+
+  it('shows the straightening of drawn signatures and a missing profile', async () => {
+    const r = await receipt();
+    expect(receiptToHtml(r)).toContain('<th>Straightened</th><td>Yes</td>');
+    expect(receiptToHtml({ ...r, method: 'typed', profile: null })).not.toContain('Straightened');
+    expect(receiptToHtml({ ...r, profile: null })).toContain('<th>Export profile</th><td>None</td>');
+  });
+});
@@ -0,0 +1,200 @@
+import { ExportProfile, formatBytes, describeProfile } from './exportProfiles';
+import { sha256Hex } from './strokeEvidence';
+
+export type SigningMethod = 'drawn' | 'typed' | 'uploaded';
+
+/**
+ * Signing receipt (format "signease-signing-receipt", version 1), written next to an exported image.
+ * `file.sha256` is the SHA-256 (lowercase hex) of the exact bytes of the downloaded image.
+ */
+export interface SigningReceipt {
+  format: 'signease-signing-receipt';
+  version: 1;
+  id: string;
+  signer: string | null;
+  method: SigningMethod;
+  font: string | null; // typed signatures only
+  straightened: boolean;
+  createdAt: string; // ISO 8601, UTC
+  timezone: string; // IANA zone of the signing device
+  utcOffset: string; // e.g. "+02:00" at createdAt
+  file: {
+    name: string;
+    mimeType: string; // image/png, image/jpeg, image/webp, image/svg+xml or application/pdf
+    bytes: number;
+    width: number; // pixels; SVG user units; PDF points of the first page
+    height: number;
+    sha256: string;
+  };
+  profile: Omit<ExportProfile, 'builtIn'> | null; // null for signed PDFs, which no profile shapes
+}
+
+export type ReceiptCheck =
+  | { status: 'match' }
+  | { status: 'mismatch'; reason: string }
+  | { status: 'invalid'; reason: string };
+
+interface ReceiptInput {
+  signer: string;
+  method: SigningMethod;
+  font?: string;
+  straightened: boolean;
+  fileName: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  profile: ExportProfile | null;
+}
+
+const formatUtcOffset = (date: Date) => {
+  const minutes = -date.getTimezoneOffset();
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+};
+
+export const buildSigningReceipt = async (input: ReceiptInput, imageBytes: Uint8Array): Promise<SigningReceipt> => {
+  const now = new Date();
+  let profile: SigningReceipt['profile'] = null;
+  if (input.profile) {
+    const { builtIn: _builtIn, ...rest } = input.profile;
+    profile = rest;
+  }
+  const sha256 = await sha256Hex(new Uint8Array(imageBytes));
+  return {
+    format: 'signease-signing-receipt',
+    version: 1,
+    id: `${now.getTime().toString(36)}-${sha256.slice(0, 8)}`,
+    signer: input.signer.trim() || null,
+    method: input.method,
+    font: input.method === 'typed' ? input.font ?? null : null,
+    straightened: input.straightened,
+    createdAt: now.toISOString(),
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    utcOffset: formatUtcOffset(now),
+    file: {
+      name: input.fileName,
+      mimeType: input.mimeType,
+      bytes: imageBytes.length,
+      width: input.width,
+      height: input.height,
+      sha256
+    },
+    profile
+  };
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOptionalNumber = (value: unknown) => value === undefined || isNumber(value);
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T => options.includes(value as T);
+
+const isReceiptFile = (value: unknown): value is SigningReceipt['file'] => {
+  const f = value as SigningReceipt['file'];
+  return !!f && isString(f.name) && isString(f.mimeType) && isNumber(f.bytes) && isNumber(f.width) && isNumber(f.height) && isString(f.sha256);
+};
+
+const isReceiptProfile = (value: unknown): value is SigningReceipt['profile'] => {
+  const p = value as SigningReceipt['profile'];
+  return !!p && isString(p.id) && isString(p.name) && isNumber(p.maxBytes)
+    && isOptionalNumber(p.width) && isOptionalNumber(p.height) && isOptionalNumber(p.dpi)
+    && isOneOf(p.format, ['png', 'jpg', 'webp'] as const)
+    && isOneOf(p.background, ['transparent', 'white'] as const)
+    && isOneOf(p.colorMode, ['color', 'grayscale', 'bw'] as const)
+    && (p.cropMargin === null || isNumber(p.cropMargin));
+};
+
+/**
+ * Reads a receipt file. Returns null unless every field the verifier and the printable page show
+ * is present and well-formed.
+ */
+export const parseSigningReceipt = (json: string): SigningReceipt | null => {
+  let data: SigningReceipt;
+  try {
+    data = JSON.parse(json) as SigningReceipt;
+  } catch {
+    return null;
+  }
+  const valid = !!data && data.format === 'signease-signing-receipt' && data.version === 1
+    && isString(data.id)
+    && (data.signer === null || isString(data.signer))
+    && isOneOf(data.method, ['drawn', 'typed', 'uploaded'] as const)
+    && (data.font === null || data.font === undefined || isString(data.font))
+    && typeof data.straightened === 'boolean'
+    && isString(data.createdAt) && !Number.isNaN(Date.parse(data.createdAt))
+    && isString(data.timezone) && isString(data.utcOffset)
+    && isReceiptFile(data.file)
+    && (data.profile === null || isReceiptProfile(data.profile));
+  return valid ? { ...data, font: data.font ?? null } : null;
+};
+
+/**
+ * Hashes an image file and checks it against a receipt. Any change to the file, including
+ * re-saving it without visible differences, is reported as a mismatch.
+ */
+export const verifySigningReceipt = async (image: Blob, receipt: SigningReceipt): Promise<ReceiptCheck> => {
+  if (!/^[0-9a-f]{64}$/.test(receipt.file.sha256)) return { status: 'invalid', reason: 'The receipt does not contain a valid SHA-256 hash.' };
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  if ((await sha256Hex(bytes)) === receipt.file.sha256) return { status: 'match' };
+  const reason = bytes.length !== receipt.file.bytes
+    ? `The image is ${formatBytes(bytes.length)} but the receipt records ${formatBytes(receipt.file.bytes)}.`
+    : 'The image has the recorded size but different contents.';
+  return { status: 'mismatch', reason };
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const METHOD_LABELS: Record<SigningMethod, string> = {
+  drawn: 'Drawn by hand',
+  typed: 'Typed',
+  uploaded: 'Uploaded photo'
+};
+
+/**
+ * Standalone printable page for a receipt, with the exported image embedded when given
+ */
+export const receiptToHtml = (receipt: SigningReceipt, imageDataUrl?: string) => {
+  const rows: [string, string][] = [
+    ['Signer', receipt.signer ?? 'Not provided'],
+    ['Method', receipt.font ? `${METHOD_LABELS[receipt.method]} · ${receipt.font}` : METHOD_LABELS[receipt.method]],
+    ['Created', `${receipt.createdAt} (UTC)`],
+    ['Time zone', `${receipt.timezone} (UTC${receipt.utcOffset})`],
+    ['File', `${receipt.file.name} · ${receipt.file.mimeType} · ${receipt.file.width}x${receipt.file.height}px · ${formatBytes(receipt.file.bytes)}`],
+    ['SHA-256', receipt.file.sha256],
+    ['Export profile', receipt.profile ? `${receipt.profile.name} (${describeProfile(receipt.profile)})` : 'None'],
+    ['Receipt ID', receipt.id]
+  ];
+  if (receipt.method === 'drawn') rows.splice(2, 0, ['Straightened', receipt.straightened ? 'Yes' : 'No']);
+  const table = rows
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td${label === 'SHA-256' ? ' class="hash"' : ''}>${escapeHtml(value)}</td></tr>`)
+    .join('');
+  const image = imageDataUrl ? `<div class="image"><img src="${escapeHtml(imageDataUrl)}" alt="Exported signature"></div>` : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Signing receipt ${escapeHtml(receipt.id)}</title>
+<style>
+body { font-family: Inter, system-ui, sans-serif; color: #0f172a; max-width: 720px; margin: 40px auto; padding: 0 24px; }
+h1 { font-size: 22px; margin-bottom: 4px; }
+p { color: #64748b; margin-top: 0; }
+.image { border: 1px solid #e2e8f0; border-radius: 12px; padding: 16px; margin: 24px 0; text-align: center; background: #fff; }
+.image img { max-width: 100%; max-height: 200px; }
+table { width: 100%; border-collapse: collapse; font-size: 14px; }
+th { text-align: left; width: 160px; color: #64748b; font-weight: 600; vertical-align: top; }
+th, td { padding: 8px 0; border-bottom: 1px solid #f1f5f9; }
+.hash { font-family: ui-monospace, monospace; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>SignEase signing receipt</h1>
+<p>Keep this receipt with the signature file. The SHA-256 hash identifies the exact file that was exported.</p>
+${image}
+<table>${table}</table>
+</body>
+</html>`;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Stroke } from './types';
+import { buildStrokeEvidence, replayTimeline, sha256Hex, verifyStrokeEvidence } from './strokeEvidence';
+
+const START = Date.UTC(2026, 0, 2, 10, 0, 0);
+
+const stroke = (id: string, points: [number, number, number, number?][]): Stroke => ({
+  id,
+  color: '#1e293b',
+  penWidth: 3,
+  pointerType: 'pen',
+  points: points.map(([x, y, t, pressure]) => ({ x, y, t: START + t, ...(pressure === undefined ? {} : { pressure }) }))
+});
+
+const strokes = () => [
+  stroke('a', [[10.04, 20.06, 0, 0.5], [30, 25, 120.04, 0.61234]]),
+  stroke('b', [[40, 20, 5000], [60, 30, 5200], [80, 20, 5350]])
+];
+
+describe('sha256Hex', () => {
+  it('hashes the UTF-8 bytes of a string', async () => {
+    expect(await sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('buildStrokeEvidence', () => {
+  it('records times relative to the first point and sums the pen-down time', async () => {
+    const evidence = (await buildStrokeEvidence(strokes(), { width: 600.4, height: 200 }))!;
+    expect(evidence.startedAt).toBe('2026-01-02T10:00:00.000Z');
+    expect(evidence.canvas).toEqual({ width: 600, height: 200, unit: 'css-px' });
+    expect(evidence.summary).toEqual({ strokeCount: 2, pointCount: 5, totalDurationMs: 5350, inkDurationMs: 470, pressureRecorded: true });
+    expect(evidence.strokes[0].points).toEqual([[10, 20.1, 0, 0.5], [30, 25, 120, 0.612]]);
+    expect(evidence.strokes[1].points[0]).toEqual([40, 20, 5000]);
+  });
+
+  it('returns nothing without ink', async () => {
+    expect(await buildStrokeEvidence([stroke('empty', [])], { width: 600, height: 200 })).toBeNull();
+  });
+});
+
+describe('verifyStrokeEvidence', () => {
+  it('accepts an untouched file, also after a JSON round trip', async () => {
+    const evidence = (await buildStrokeEvidence(strokes(), { width: 600, height: 200 }))!;
+    expect(await verifyStrokeEvidence(evidence)).toBe(true);
+    expect(await verifyStrokeEvidence(JSON.parse(JSON.stringify(evidence)))).toBe(true);
+  });
+
+  it('rejects edited points and a missing hash', async () => {
+    const evidence = (await buildStrokeEvidence(strokes(), { width: 600, height: 200 }))!;
+    const edited = JSON.parse(JSON.stringify(evidence));
+    edited.strokes[1].points[2][2] = 9000;
+    expect(await verifyStrokeEvidence(edited)).toBe(false);
+    expect(await verifyStrokeEvidence({ ...evidence, hash: undefined })).toBe(false);
+  });
+});
+
+describe('replayTimeline', () => {
+  it('follows the recorded timing and shortens long pauses between strokes', () => {
+    const { times, duration } = replayTimeline(strokes());
+    expect(times[0].map(t => Math.round(t))).toEqual([0, 120]);
+    // The 4.9 s pause before the second stroke plays as 1.5 s
+    expect(times[1].map(t => Math.round(t))).toEqual([1620, 1820, 1970]);
+    expect(Math.round(duration)).toBe(1970);
+  });
+
+  it('keeps short pauses and skips empty strokes', () => {
+    const { times, duration } = replayTimeline([stroke('a', [[0, 0, 0], [1, 1, 100]]), stroke('empty', []), stroke('b', [[2, 2, 300], [3, 3, 350]])]);
+    expect(times).toEqual([[0, 100], [], [300, 350]]);
+    expect(duration).toBe(350);
+  });
+});
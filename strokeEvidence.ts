@@ -0,0 +1,113 @@
+import { Stroke } from './types';
+
+/**
+ * Stroke-timing evidence file (format "signease-stroke-evidence", version 1).
+ *
+ * - `canvas`: size of the drawing pad in CSS pixels; all coordinates use this space, origin top-left.
+ * - `startedAt`: ISO time of the first recorded point.
+ * - `summary.totalDurationMs`: first point to last point, pauses included.
+ * - `summary.inkDurationMs`: sum of the time the pen was actually down.
+ * - `strokes[].points`: `[x, y, t]` or `[x, y, t, pressure]` tuples, where `t` is milliseconds since
+ *   `startedAt` (0.1 ms precision) and `pressure` is 0..1 as reported by a stylus.
+ * - `hash`: SHA-256 (lowercase hex) of the UTF-8 bytes of `JSON.stringify` of this document with
+ *   the `hash` property left out, in the key order written here.
+ */
+export interface StrokeEvidence {
+  format: 'signease-stroke-evidence';
+  version: 1;
+  createdAt: string;
+  startedAt: string;
+  canvas: { width: number; height: number; unit: 'css-px' };
+  summary: {
+    strokeCount: number;
+    pointCount: number;
+    totalDurationMs: number;
+    inkDurationMs: number;
+    pressureRecorded: boolean;
+  };
+  strokes: {
+    pointerType: string;
+    color: string;
+    penWidth: number;
+    points: number[][];
+  }[];
+  hash?: { algorithm: 'SHA-256'; value: string };
+}
+
+// Pauses longer than this are shortened during replay so it does not appear stuck
+const MAX_REPLAY_GAP_MS = 1500;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export const sha256Hex = async (data: string | BufferSource) => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const hashableJson = (evidence: StrokeEvidence) => {
+  const { hash: _hash, ...rest } = evidence;
+  return JSON.stringify(rest);
+};
+
+export const buildStrokeEvidence = async (strokes: Stroke[], canvas: { width: number; height: number }): Promise<StrokeEvidence | null> => {
+  const drawn = strokes.filter(s => s.points.length > 0);
+  if (drawn.length === 0) return null;
+  const start = drawn[0].points[0].t;
+  const last = drawn[drawn.length - 1].points;
+  const evidence: StrokeEvidence = {
+    format: 'signease-stroke-evidence',
+    version: 1,
+    createdAt: new Date().toISOString(),
+    startedAt: new Date(start).toISOString(),
+    canvas: { width: Math.round(canvas.width), height: Math.round(canvas.height), unit: 'css-px' },
+    summary: {
+      strokeCount: drawn.length,
+      pointCount: drawn.reduce((sum, s) => sum + s.points.length, 0),
+      totalDurationMs: round1(last[last.length - 1].t - start),
+      inkDurationMs: round1(drawn.reduce((sum, s) => sum + (s.points[s.points.length - 1].t - s.points[0].t), 0)),
+      pressureRecorded: drawn.some(s => s.points.some(p => p.pressure !== undefined))
+    },
+    strokes: drawn.map(s => ({
+      pointerType: s.pointerType ?? 'unknown',
+      color: s.color,
+      penWidth: s.penWidth,
+      points: s.points.map(p => {
+        const tuple = [round1(p.x), round1(p.y), round1(p.t - start)];
+        if (p.pressure !== undefined) tuple.push(Math.round(p.pressure * 1000) / 1000);
+        return tuple;
+      })
+    }))
+  };
+  evidence.hash = { algorithm: 'SHA-256', value: await sha256Hex(hashableJson(evidence)) };
+  return evidence;
+};
+
+/**
+ * Recomputes the hash of a parsed evidence file and compares it with the recorded one
+ */
+export const verifyStrokeEvidence = async (evidence: StrokeEvidence) => {
+  if (evidence.format !== 'signease-stroke-evidence' || !evidence.hash) return false;
+  return (await sha256Hex(hashableJson(evidence))) === evidence.hash.value;
+};
+
+/**
+ * Playback time (ms from the start) for every point of every stroke, following the recorded
+ * timing but with long pauses between strokes shortened
+ */
+export const replayTimeline = (strokes: Stroke[]): { times: number[][]; duration: number } => {
+  let offset = 0;
+  let previousEnd: number | null = null;
+  let duration = 0;
+  const times = strokes.map(stroke => {
+    if (stroke.points.length === 0) return [];
+    const first = stroke.points[0].t;
+    if (previousEnd !== null) offset += Math.min(MAX_REPLAY_GAP_MS, Math.max(0, first - previousEnd));
+    const strokeTimes = stroke.points.map(p => offset + (p.t - first));
+    offset = strokeTimes[strokeTimes.length - 1];
+    previousEnd = stroke.points[stroke.points.length - 1].t;
+    duration = offset;
+    return strokeTimes;
+  });
+  return { times, duration };
+};
@@ -1,35 +1,96 @@
-const CACHE_NAME = 'signease-v1';
-const ASSETS_TO_CACHE = [
-  './',
-  './index.html',
-  './index.tsx'
-];
+// Template for the service worker. serviceWorkerPlugin.ts replaces the placeholder below with this
+// build's version and asset lists and emits the result as dist/sw.js.
+const BUILD = self.__SIGNEASE_BUILD__;
+
+const CACHE_PREFIX = 'signease-';
+const APP_CACHE = `${CACHE_PREFIX}app-${BUILD.version}`;
+const FONT_CACHE = `${CACHE_PREFIX}fonts-${BUILD.fontVersion}`;
+
+const isFontRequest = (url) =>
+  url.hostname === 'fonts.googleapis.com' ||
+  url.hostname === 'fonts.gstatic.com' ||
+  (url.hostname === 'cdn.jsdelivr.net' && url.pathname.startsWith('/fontsource/'));
+
+/**
+ * Stores a Google Fonts stylesheet together with the font files it points at
+ */
+const cacheFontStylesheet = async (cache, url) => {
+  const response = await fetch(url, { mode: 'cors' });
+  if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+  await cache.put(url, response.clone());
+  const css = await response.text();
+  const files = [...css.matchAll(/url\((https:[^)]+)\)/g)].map((match) => match[1]);
+  await Promise.all(files.map((file) => cache.add(new Request(file, { mode: 'cors' }))));
+};
 
 self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.addAll(ASSETS_TO_CACHE);
-    })
-  );
+  event.waitUntil((async () => {
+    const app = await caches.open(APP_CACHE);
+    await app.addAll(BUILD.precache);
+
+    // Fonts and third-party scripts are best effort: without them the app still works, only less
+    // pretty, and the fetch handler fills the gaps on later visits
+    const fonts = await caches.open(FONT_CACHE);
+    const optional = [
+      ...BUILD.fontStylesheets.map((url) => cacheFontStylesheet(fonts, url)),
+      ...BUILD.fontFiles.map((url) => fonts.add(new Request(url, { mode: 'cors' }))),
+      // <script> tags load these without CORS, so an opaque response is all they need
+      ...BUILD.external.map(async (url) => app.put(url, await fetch(new Request(url, { mode: 'no-cors' }))))
+    ];
+    for (const result of await Promise.allSettled(optional)) {
+      if (result.status === 'rejected') console.warn('Offline copy incomplete:', result.reason);
+    }
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const current = [APP_CACHE, FONT_CACHE];
+    for (const name of await caches.keys()) {
+      // Also removes the unversioned "signease-v1" cache of the first worker
+      if (name.startsWith(CACHE_PREFIX) && !current.includes(name)) await caches.delete(name);
+    }
+    await self.clients.claim();
+  })());
+});
+
+// The page asks a waiting worker to take over once the user accepts the update prompt
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
 });
 
+const fromFontCache = async (request) => {
+  const cache = await caches.open(FONT_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') await cache.put(request, response.clone());
+  return response;
+};
+
 self.addEventListener('fetch', (event) => {
-  // Only cache GET requests and skip Google GenAI requests to avoid issues
-  if (event.request.method !== 'GET' || event.request.url.includes('generativelanguage.googleapis.com')) {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Analysis and any other API calls always need the network
+  if (url.origin === self.location.origin && url.pathname.startsWith(`${BUILD.base}api/`)) return;
+
+  if (request.mode === 'navigate') {
+    // Every page of the app (including ?embed) is the same shell
+    event.respondWith(
+      caches.match(`${BUILD.base}index.html`, { cacheName: APP_CACHE }).then((cached) => cached || fetch(request))
+    );
     return;
   }
 
+  if (isFontRequest(url)) {
+    event.respondWith(fromFontCache(request));
+    return;
+  }
+
+  // Precached build output; anything else goes to the network and is not stored
   event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request).then((fetchResponse) => {
-        return caches.open(CACHE_NAME).then((cache) => {
-          cache.put(event.request, fetchResponse.clone());
-          return fetchResponse;
-        });
-      });
-    }).catch(() => {
-      // Return offline fallback if needed
-      return caches.match('./index.html');
-    })
+    caches.match(request, { cacheName: APP_CACHE }).then((cached) => cached || fetch(request))
   );
-});
\ No newline at end of file
+});
@@ -0,0 +1,15 @@
+/**
+ * Vitest setup: renders on @napi-rs/canvas through the renderer's canvas factory, the same way a
+ * Node integration would, and registers a font for the typed-signature tests.
+ */
+import { createCanvas, GlobalFonts } from '@napi-rs/canvas';
+import { afterAll } from 'vitest';
+import { setCanvasFactory, RenderCanvas } from './canvasFactory';
+
+export const TEST_FONT_PATH = 'node_modules/pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf';
+export const TEST_FONT_FAMILY = 'SignEase Test Sans';
+
+GlobalFonts.registerFromPath(TEST_FONT_PATH, TEST_FONT_FAMILY);
+setCanvasFactory((width, height) => createCanvas(width, height) as unknown as RenderCanvas);
+
+afterAll(() => setCanvasFactory(null));
@@ -0,0 +1,202 @@
+import { parse as parseFont, Font } from 'opentype.js';
+import { promisify, withStore } from './localDb';
+import { FontFormat, TypedFont } from './fontCatalog';
+
+export interface FontSettings {
+  scale: number; // multiplies the base font size, 1 = 160px on the export canvas
+  letterSpacing: number; // extra space between letters, in em
+}
+
+/**
+ * A font file added by the user, kept in IndexedDB
+ */
+export interface StoredFont {
+  id: string;
+  name: string;
+  fileName: string;
+  format: FontFormat;
+  data: ArrayBuffer;
+  createdAt: string;
+}
+
+export const DEFAULT_FONT_SETTINGS: FontSettings = { scale: 1, letterSpacing: 0 };
+
+export const MAX_FONT_BYTES = 5 * 1024 * 1024;
+
+const FONT_SETTINGS_KEY = 'signease.fontSettings';
+
+// The ranges the size and spacing sliders offer
+const SCALE_RANGE = [0.6, 1.4];
+const LETTER_SPACING_RANGE = [-0.05, 0.3];
+
+const inRange = (value: unknown, [min, max]: number[]): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+/**
+ * Per-font settings by font name. Entries with a missing or out-of-range value are dropped, so
+ * the font falls back to the defaults.
+ */
+export const loadFontSettings = (): Record<string, FontSettings> => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(FONT_SETTINGS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return {};
+  const settings: Record<string, FontSettings> = {};
+  for (const [name, value] of Object.entries(stored)) {
+    const s = value as FontSettings | null;
+    if (s && inRange(s.scale, SCALE_RANGE) && inRange(s.letterSpacing, LETTER_SPACING_RANGE)) {
+      settings[name] = { scale: s.scale, letterSpacing: s.letterSpacing };
+    }
+  }
+  return settings;
+};
+
+export const saveFontSettings = (settings: Record<string, FontSettings>) => {
+  localStorage.setItem(FONT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Identifies a font file from its signature bytes rather than trusting the extension
+ */
+export const detectFontFormat = (data: ArrayBuffer): FontFormat | null => {
+  if (data.byteLength < 4) return null;
+  const tag = new Uint8Array(data, 0, 4);
+  const ascii = String.fromCharCode(...tag);
+  if (ascii === 'wOF2') return 'woff2';
+  if (ascii === 'wOFF') return 'woff';
+  if (ascii === 'OTTO') return 'otf';
+  if (ascii === 'true' || (tag[0] === 0 && tag[1] === 1 && tag[2] === 0 && tag[3] === 0)) return 'ttf';
+  return null;
+};
+
+const customFamilyName = (id: string) => `SignEase Custom ${id}`;
+
+export const storedFontToTypedFont = (font: StoredFont): TypedFont => ({
+  name: font.name,
+  family: `'${customFamilyName(font.id)}', cursive`,
+  customId: font.id,
+  format: font.format
+});
+
+const registeredFaces = new Map<string, FontFace>();
+
+/**
+ * Makes a stored font available to CSS and canvas under its private family name
+ */
+export const registerCustomFont = async (font: StoredFont) => {
+  if (registeredFaces.has(font.id)) return;
+  const face = new FontFace(customFamilyName(font.id), font.data);
+  await face.load();
+  document.fonts.add(face);
+  registeredFaces.set(font.id, face);
+};
+
+const unregisterCustomFont = (id: string) => {
+  const face = registeredFaces.get(id);
+  if (face) document.fonts.delete(face);
+  registeredFaces.delete(id);
+};
+
+export const listCustomFonts = async (): Promise<StoredFont[]> => {
+  const fonts = await withStore('fonts', 'readonly', store => promisify(store.getAll() as IDBRequest<StoredFont[]>));
+  return fonts.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+/**
+ * Validates, registers and stores an uploaded font file. The display name comes from the file
+ * name and is made unique among the given names.
+ */
+export const addCustomFont = async (file: File, takenNames: string[]): Promise<StoredFont> => {
+  if (file.size > MAX_FONT_BYTES) throw new Error('Font files must be 5 MB or smaller.');
+  const data = await file.arrayBuffer();
+  const format = detectFontFormat(data);
+  if (!format) throw new Error('That file is not a TTF, OTF, WOFF or WOFF2 font.');
+  const base = file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Custom font';
+  let name = base;
+  for (let n = 2; takenNames.includes(name); n++) name = `${base} ${n}`;
+  const font: StoredFont = {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    fileName: file.name,
+    format,
+    data,
+    createdAt: new Date().toISOString()
+  };
+  try {
+    await registerCustomFont(font);
+  } catch {
+    throw new Error('This browser could not read the font file.');
+  }
+  try {
+    await withStore('fonts', 'readwrite', async store => {
+      await promisify(store.put(font));
+    });
+  } catch (e) {
+    // Not stored, so it must not stay usable for this visit either
+    unregisterCustomFont(font.id);
+    throw new Error('The font could not be saved. The browser may be out of storage space.', { cause: e });
+  }
+  return font;
+};
+
+export const deleteCustomFont = async (id: string) => {
+  unregisterCustomFont(id);
+  await withStore('fonts', 'readwrite', async store => {
+    await promisify(store.delete(id));
+  });
+};
+
+/**
+ * Waits for the face a canvas will draw with. Canvas text never triggers a web font download on
+ * its own, so without this the first export silently falls back to a generic cursive face.
+ */
+export const ensureFontLoaded = async (font: TypedFont, text: string) => {
+  const faces = await document.fonts.load(`64px ${font.family}`, text || 'Signature');
+  if (faces.length === 0) throw new Error(`The font "${font.name}" is not available right now. Check your connection and try again.`);
+};
+
+const outlineFontCache = new Map<string, Promise<Font>>();
+
+const loadOutlineFont = (url: string): Promise<Font> => {
+  let pending = outlineFontCache.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`Font request failed (${res.status})`);
+        return res.arrayBuffer();
+      })
+      .then(buffer => parseFont(buffer));
+    // Allow a retry after a network failure
+    pending.catch(() => outlineFontCache.delete(url));
+    outlineFontCache.set(url, pending);
+  }
+  return pending;
+};
+
+/**
+ * opentype.js cannot decompress WOFF2, so those custom fonts have no vector export
+ */
+export const hasOutlines = (font: TypedFont) => !!font.outlineUrl || (!!font.customId && font.format !== 'woff2');
+
+/**
+ * Parsed glyph outlines of a typed font, for the SVG export
+ */
+export const loadFontOutlines = async (font: TypedFont): Promise<Font> => {
+  if (font.outlineUrl) return loadOutlineFont(font.outlineUrl);
+  if (!font.customId || !hasOutlines(font)) throw new Error(`"${font.name}" cannot be exported as SVG.`);
+  const key = `custom:${font.customId}`;
+  let pending = outlineFontCache.get(key);
+  if (!pending) {
+    pending = withStore('fonts', 'readonly', store => promisify(store.get(font.customId!) as IDBRequest<StoredFont | undefined>))
+      .then(stored => {
+        if (!stored) throw new Error(`"${font.name}" is no longer in your fonts.`);
+        return parseFont(stored.data);
+      });
+    pending.catch(() => outlineFontCache.delete(key));
+    outlineFontCache.set(key, pending);
+  }
+  return pending;
+};
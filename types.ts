@@ -0,0 +1,14 @@
+export interface StrokePoint {
+  x: number;
+  y: number;
+  t: number; // ms since epoch
+  pressure?: number; // 0..1, only recorded when a pen reports it
+}
+
+export interface Stroke {
+  id: string;
+  points: StrokePoint[];
+  color: string;
+  penWidth: number;
+  pointerType?: string;
+}
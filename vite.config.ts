@@ -1,12 +1,10 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { serviceWorkerPlugin } from './serviceWorkerPlugin';
 
 export default defineConfig({
-  plugins: [react()],
-  define: {
-    // This allows the browser code to access the API_KEY provided by Vercel's environment
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
-  },
+  plugins: [react(), serviceWorkerPlugin()],
   build: {
     outDir: 'dist',
     rollupOptions: {
@@ -15,4 +13,8 @@ export default defineConfig({
       },
     },
   },
+  test: {
+    environment: 'node',
+    setupFiles: ['./testSetup.ts'],
+  },
 });
\ No newline at end of file